@@ -0,0 +1,114 @@
+import { insertIdOf, InsertIdRef, lazyTable, pool, Statement } from "./db";
+
+// RAMOM's enquiry table has no column pointing at the student it became, so conversions are
+// recorded here. The primary key also stops an inquiry from being converted twice.
+const CREATE_TABLE = `
+    CREATE TABLE IF NOT EXISTS mcp_inquiry_admission (
+        enquiry_id INT NOT NULL PRIMARY KEY,
+        student_id INT NOT NULL,
+        parent_id INT NULL,
+        branch_id INT NULL,
+        converted_by INT NULL,
+        converted_at DATETIME NOT NULL,
+        KEY idx_student (student_id)
+    )`;
+
+// Decisions on online applications. RAMOM only knows "waiting" and "admitted", so a rejection and
+// its reason live here, as does the student an approval created.
+const CREATE_REVIEW_TABLE = `
+    CREATE TABLE IF NOT EXISTS mcp_online_admission_review (
+        online_admission_id INT NOT NULL PRIMARY KEY,
+        decision VARCHAR(20) NOT NULL,
+        reason TEXT NULL,
+        student_id INT NULL,
+        parent_id INT NULL,
+        branch_id INT NULL,
+        reviewed_by INT NULL,
+        reviewed_at DATETIME NOT NULL
+    )`;
+
+// RAMOM's built-in roles for parent and student logins (login_credential.role)
+export const PARENT_ROLE_ID = 6;
+export const STUDENT_ROLE_ID = 7;
+
+export const ensureAdmissionTable = lazyTable(CREATE_TABLE);
+
+export const ensureReviewTable = lazyTable(CREATE_REVIEW_TABLE);
+
+export interface AdmissionLink {
+    enquiry_id: number;
+    student_id: number;
+    parent_id: number | null;
+    converted_at: string;
+}
+
+export const findAdmission = async (enquiryId: number): Promise<AdmissionLink | undefined> => {
+    await ensureAdmissionTable();
+    const [rows] = await pool.execute(
+        "SELECT enquiry_id, student_id, parent_id, converted_at FROM mcp_inquiry_admission WHERE enquiry_id = ?",
+        [enquiryId]
+    );
+    return (rows as AdmissionLink[])[0];
+};
+
+// "Asha Rani Verma" -> first "Asha Rani", last "Verma"; a single word is a first name only
+export const splitName = (name: string): { first_name: string; last_name: string } => {
+    const words = name.trim().split(/\s+/);
+    return words.length > 1
+        ? { first_name: words.slice(0, -1).join(" "), last_name: words[words.length - 1] }
+        : { first_name: words[0] || "", last_name: "" };
+};
+
+// A parent in the branch registered with this mobile number, so siblings share one parent record
+export const findParentByMobile = async (mobile: string, branchId: number): Promise<number | undefined> => {
+    if (!mobile) return undefined;
+    const [rows] = await pool.execute("SELECT id FROM parent WHERE mobileno = ? AND branch_id = ? ORDER BY id LIMIT 1", [mobile, branchId]);
+    return (rows as any[])[0]?.id;
+};
+
+export interface NewAdmission {
+    branchId: number;
+    // Existing parent to link; without one, `parent` is created with a login
+    parentId?: number;
+    parent: Record<string, unknown>;
+    // student columns (RAMOM keeps the branch, class and section on the enrollment, not the student)
+    student: Record<string, unknown>;
+    enroll: { class_id: number; section_id: number; roll: number | null; session_id: number };
+}
+
+// INSERT of one row; `createdAt` names a column set to NOW()
+const insert = (table: string, row: Record<string, unknown>, createdAt?: string): Statement => {
+    const columns = Object.keys(row);
+    return {
+        sql: `INSERT INTO ${table} (${[...columns, ...(createdAt ? [createdAt] : [])].join(", ")}) ` +
+            `VALUES (${[...columns.map(() => "?"), ...(createdAt ? ["NOW()"] : [])].join(", ")})`,
+        params: Object.values(row),
+    };
+};
+
+// Parent (unless linked), student, enrollment and logins, in batch order. `student` is the index of
+// the student insert and `parentRef` the parent ID or a reference to the parent insert.
+export const admissionStatements = (admission: NewAdmission): { statements: Statement[]; student: number; parentRef: number | InsertIdRef } => {
+    const statements: Statement[] = [];
+    if (!admission.parentId) {
+        statements.push(
+            insert("parent", { ...admission.parent, branch_id: admission.branchId }, "created_at"),
+            {
+                sql: `INSERT INTO login_credential (user_id, username, password, role, active) VALUES (?, ?, 'password', ${PARENT_ROLE_ID}, 1)`,
+                params: [insertIdOf(0), admission.parent.email || insertIdOf(0, "parent")]
+            }
+        );
+    }
+    const parentRef = admission.parentId || insertIdOf(0);
+    const student = statements.length;
+
+    statements.push(
+        insert("student", { ...admission.student, parent_id: parentRef }),
+        insert("enroll", { student_id: insertIdOf(student), ...admission.enroll, branch_id: admission.branchId }),
+        {
+            sql: `INSERT INTO login_credential (user_id, username, password, role, active) VALUES (?, ?, 'password', ${STUDENT_ROLE_ID}, 1)`,
+            params: [insertIdOf(student), admission.student.email || insertIdOf(student, "student")]
+        }
+    );
+    return { statements, student, parentRef };
+};
@@ -0,0 +1,192 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { promises as fs } from "node:fs";
+import { lazyTable, pool, storage, writeLog } from "./db";
+import { referencedRecords } from "./branch-scope";
+import { resolveIdentity } from "./identity";
+import { Page, PageRequest, paginate, paginateRows } from "./pagination";
+import { isMutatingTool } from "./permissions";
+
+// AUDIT_STORE selects where entries go: "database" (default, the mcp_audit_log table) or "file"
+// (append-only JSONL at AUDIT_LOG_FILE) for installs whose schema can't be altered.
+const AUDIT_STORE = process.env.AUDIT_STORE || "database";
+const AUDIT_LOG_FILE = process.env.AUDIT_LOG_FILE || "audit-log.jsonl";
+
+const CREATE_TABLE = `
+    CREATE TABLE IF NOT EXISTS mcp_audit_log (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        created_at DATETIME NOT NULL,
+        user_id INT NULL,
+        role_id INT NULL,
+        branch_id INT NULL,
+        api_key_hint VARCHAR(8) NULL,
+        tool VARCHAR(100) NOT NULL,
+        arguments LONGTEXT NULL,
+        affected_ids TEXT NULL,
+        outcome VARCHAR(10) NOT NULL,
+        error TEXT NULL,
+        KEY idx_tool (tool),
+        KEY idx_created_at (created_at)
+    )`;
+
+export interface AuditEntry {
+    // Row id in the database store, line number in the file store
+    id?: number;
+    created_at: string;
+    user_id: number | null;
+    role_id: number | null;
+    branch_id: number | null;
+    api_key_hint: string | null;
+    tool: string;
+    arguments: Record<string, unknown>;
+    // Record IDs by table, e.g. { "student": [42], "enroll": [97] }
+    affected_ids: Record<string, number[]>;
+    outcome: "success" | "error";
+    error: string | null;
+}
+
+export interface AuditFilter extends PageRequest {
+    tool?: string;
+    user_id?: number;
+    branch_id?: number;
+    outcome?: string;
+    affected_table?: string;
+    affected_id?: number;
+    date_from?: string;
+    date_to?: string;
+}
+
+const ensureTable = lazyTable(CREATE_TABLE);
+
+const writeEntry = async (entry: AuditEntry) => {
+    if (AUDIT_STORE === "file") {
+        await fs.appendFile(AUDIT_LOG_FILE, JSON.stringify(entry) + "\n");
+        return;
+    }
+
+    await ensureTable();
+    await pool.execute(
+        `INSERT INTO mcp_audit_log
+         (created_at, user_id, role_id, branch_id, api_key_hint, tool, arguments, affected_ids, outcome, error)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+            entry.created_at.slice(0, 19).replace("T", " "), entry.user_id, entry.role_id, entry.branch_id,
+            entry.api_key_hint, entry.tool, JSON.stringify(entry.arguments), JSON.stringify(entry.affected_ids),
+            entry.outcome, entry.error
+        ]
+    );
+};
+
+// The arguments a tool actually ran with: scoped to the branch, validated and with defaults applied
+const validatedArgs = new AsyncLocalStorage<{ args?: Record<string, unknown> }>();
+
+export const noteValidatedArgs = (args: Record<string, unknown>) => {
+    const call = validatedArgs.getStore();
+    if (call) call.args = args;
+};
+
+// Records the call named, plus the rows it created, by table
+const affectedIds = (tool: string, args: Record<string, unknown>, created: Record<string, number[]>): Record<string, number[]> => {
+    const affected: Record<string, number[]> = {};
+    for (const [table, ids] of [...referencedRecords(tool, args), ...Object.entries(created)]) {
+        affected[table] = [...new Set([...(affected[table] || []), ...ids])];
+    }
+    return affected;
+};
+
+// A failure to write the audit entry is logged but never masks the tool's own result
+const recordEntry = async (tool: string, args: Record<string, unknown>, created: Record<string, number[]>, error: string | null) => {
+    try {
+        const identity = await resolveIdentity();
+        const apiKey = storage.getStore() || process.env.RAMOM_API_KEY || "";
+        await writeEntry({
+            created_at: new Date().toISOString(),
+            user_id: identity.userId,
+            role_id: identity.roleId,
+            branch_id: identity.branchId,
+            api_key_hint: apiKey ? apiKey.slice(-4) : null,
+            tool,
+            arguments: args,
+            affected_ids: affectedIds(tool, args, created),
+            outcome: error === null ? "success" : "error",
+            error,
+        });
+    } catch (auditError: any) {
+        console.error(`Audit Error (${tool}):`, auditError.message);
+    }
+};
+
+// Runs a tool call and, when the tool changes data, records who called it, with what, and how it ended
+export const auditToolCall = async <T extends { isError?: boolean; content: { type: string; text?: string }[] }>(
+    tool: string,
+    args: Record<string, unknown> = {},
+    run: () => Promise<T>
+): Promise<T> => {
+    if (!isMutatingTool(tool)) return run();
+
+    // Arguments that never passed validation are recorded as sent
+    const call: { args?: Record<string, unknown> } = {};
+    const created: Record<string, number[]> = {};
+    let result: T;
+    try {
+        result = await validatedArgs.run(call, () => writeLog.run(created, run));
+    } catch (error: any) {
+        // Database errors escape the tool as JSON-RPC errors; record them before passing them on
+        await recordEntry(tool, call.args || args, created, error.message);
+        throw error;
+    }
+
+    await recordEntry(tool, call.args || args, created, result.isError ? result.content.map((item) => item.text || "").join("\n") : null);
+    return result;
+};
+
+const readFileEntries = async (): Promise<AuditEntry[]> => {
+    try {
+        const text = await fs.readFile(AUDIT_LOG_FILE, "utf8");
+        return text.split("\n").filter(Boolean).map((line, index) => ({ ...JSON.parse(line), id: index + 1 }));
+    } catch (error: any) {
+        if (error.code === "ENOENT") return [];
+        throw error;
+    }
+};
+
+// Newest entries first
+export const listAuditEntries = async (filter: AuditFilter): Promise<Page<AuditEntry>> => {
+    if (AUDIT_STORE === "file") {
+        const entries = (await readFileEntries()).filter((entry) =>
+            (!filter.tool || entry.tool === filter.tool) &&
+            (!filter.user_id || entry.user_id === filter.user_id) &&
+            (!filter.branch_id || entry.branch_id === filter.branch_id) &&
+            (!filter.outcome || entry.outcome === filter.outcome) &&
+            (!filter.affected_id || Object.entries(entry.affected_ids).some(([table, ids]) =>
+                (!filter.affected_table || table === filter.affected_table) && ids.includes(filter.affected_id!))) &&
+            (!filter.date_from || entry.created_at >= filter.date_from) &&
+            (!filter.date_to || entry.created_at.slice(0, 10) <= filter.date_to)
+        );
+        return paginateRows(entries, [["id", "DESC"]], filter);
+    }
+
+    await ensureTable();
+    let query = "SELECT * FROM mcp_audit_log WHERE 1=1";
+    const params: any[] = [];
+    if (filter.tool) { query += " AND tool = ?"; params.push(filter.tool); }
+    if (filter.user_id) { query += " AND user_id = ?"; params.push(filter.user_id); }
+    if (filter.branch_id) { query += " AND branch_id = ?"; params.push(filter.branch_id); }
+    if (filter.outcome) { query += " AND outcome = ?"; params.push(filter.outcome); }
+    if (filter.affected_id) {
+        // Without a table, $.* looks through every table's ID list
+        query += " AND JSON_CONTAINS(JSON_EXTRACT(affected_ids, ?), ?)";
+        params.push(filter.affected_table ? `$."${filter.affected_table}"` : "$.*", String(filter.affected_id));
+    }
+    if (filter.date_from) { query += " AND created_at >= ?"; params.push(filter.date_from); }
+    if (filter.date_to) { query += " AND DATE(created_at) <= ?"; params.push(filter.date_to); }
+
+    const page = await paginate(query, params, [["id", "DESC"]], filter);
+    return {
+        ...page,
+        items: page.items.map((row) => ({
+            ...row,
+            arguments: row.arguments ? JSON.parse(row.arguments) : {},
+            affected_ids: row.affected_ids ? JSON.parse(row.affected_ids) : {},
+        })),
+    };
+};
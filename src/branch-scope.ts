@@ -0,0 +1,170 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types";
+import { STUDENT_ROLE_ID } from "./admissions";
+import { pool } from "./db";
+import { resolveIdentity } from "./identity";
+
+// Query prefixes selecting which of the given ids belong to a branch (first param is the branch).
+// Tables not listed carry their own branch_id column.
+const BRANCH_MEMBERSHIP: Record<string, string> = {
+    // RAMOM's student table has no branch_id; the branch lives on the enrollment
+    student: "SELECT DISTINCT student_id AS id FROM enroll WHERE branch_id = ? AND student_id IN",
+    fee_payment_history: "SELECT h.id FROM fee_payment_history h JOIN fee_allocation a ON h.allocation_id = a.id WHERE a.branch_id = ? AND h.id IN",
+};
+
+// Arguments that reference a branch-owned record in every tool that accepts them
+const REFERENCE_ARGS: Record<string, string> = {
+    student_id: "student",
+    parent_id: "parent",
+    staff_id: "staff",
+    teacher_id: "staff",
+    assigned_id: "staff",
+    department_id: "staff_department",
+    designation_id: "staff_designation",
+    class_id: "class",
+    section_id: "section",
+    subject_id: "subject",
+    enquiry_id: "enquiry",
+    exam_id: "exam",
+    term_id: "exam_term",
+    hall_id: "exam_hall",
+    grade_id: "grade",
+    allocation_id: "fee_allocation",
+    group_id: "fee_groups",
+    fee_groups_id: "fee_groups",
+    fee_type_id: "fees_type",
+    voucher_head_id: "voucher_head",
+    account_id: "accounts",
+    product_id: "product",
+    purchase_unit_id: "product_unit",
+    sales_unit_id: "product_unit",
+    purchase_id: "purchase_bill",
+    supplier_id: "product_supplier",
+    store_id: "product_store",
+    leave_category_id: "leave_category",
+    salary_template_id: "salary_template",
+};
+
+// Tools whose own record argument (`id`, `ids`, `leave_id`) names a row directly, and arguments whose
+// table depends on the tool (`purpose_id`, `type_id`, `category_id`)
+const TOOL_REFERENCES: Record<string, Record<string, string>> = {
+    read_inquiry: { id: "enquiry" },
+    update_inquiry: { id: "enquiry" },
+    delete_inquiry: { id: "enquiry" },
+    bulk_delete_inquiries: { ids: "enquiry" },
+    create_call_log: { purpose_id: "call_purpose" },
+    list_call_logs: { purpose_id: "call_purpose" },
+    read_call_log: { id: "call_log" },
+    update_call_log: { id: "call_log", purpose_id: "call_purpose" },
+    delete_call_log: { id: "call_log" },
+    bulk_delete_call_logs: { ids: "call_log" },
+    create_visitor_log: { purpose_id: "visitor_purpose" },
+    list_visitor_logs: { purpose_id: "visitor_purpose" },
+    read_visitor_log: { id: "visitor_log" },
+    update_visitor_log: { id: "visitor_log", purpose_id: "visitor_purpose" },
+    delete_visitor_log: { id: "visitor_log" },
+    bulk_delete_visitor_logs: { ids: "visitor_log" },
+    create_complaint: { type_id: "complaint_type" },
+    list_complaints: { type_id: "complaint_type" },
+    read_complaint: { id: "complaint" },
+    update_complaint: { id: "complaint", type_id: "complaint_type" },
+    delete_complaint: { id: "complaint" },
+    bulk_delete_complaints: { ids: "complaint" },
+    read_postal_record: { id: "postal_record" },
+    update_postal_record: { id: "postal_record" },
+    delete_postal_record: { id: "postal_record" },
+    bulk_delete_postal_records: { ids: "postal_record" },
+    approve_staff_leave: { leave_id: "staff_leave" },
+    approve_student_leave: { leave_id: "student_leave" },
+    update_fee_type: { id: "fees_type" },
+    delete_fee_type: { id: "fees_type" },
+    collect_fees: { type_id: "fees_type" },
+    bulk_collect_fees: { type_id: "fees_type" },
+    update_fee_payment: { id: "fee_payment_history" },
+    update_fee_allocation: { id: "fee_allocation" },
+    delete_exam: { id: "exam" },
+    delete_class_timetable: { id: "timetable_class" },
+    list_products: { category_id: "product_category" },
+    create_product: { category_id: "product_category" },
+    get_online_admission: { id: "online_admission" },
+    approve_online_admission: { id: "online_admission" },
+    reject_online_admission: { id: "online_admission" },
+    get_student: { id: "student" },
+    update_student: { id: "student" },
+    get_parent: { id: "parent" },
+    update_parent: { id: "parent" },
+    get_staff: { id: "staff" },
+    update_staff: { id: "staff" },
+};
+
+const assertInBranch = async (table: string, ids: number[], branchId: number) => {
+    const unique = [...new Set(ids)];
+    const prefix = BRANCH_MEMBERSHIP[table] || `SELECT id FROM ${table} WHERE branch_id = ? AND id IN`;
+    const [rows] = await pool.execute(`${prefix} (${unique.map(() => "?").join(",")})`, [branchId, ...unique]);
+
+    const owned = new Set((rows as any[]).map((row) => Number(row.id)));
+    const foreign = unique.filter((id) => !owned.has(id));
+    if (foreign.length > 0) {
+        // Same message for "other branch" and "does not exist" so IDs can't be probed across branches
+        throw new McpError(ErrorCode.InvalidRequest, `${table} ${foreign.join(", ")} not found in branch ${branchId}`);
+    }
+};
+
+// Groups referenced ids by table, descending into item lists such as bulk_collect_fees' `payments`
+const collectReferences = (args: Record<string, unknown>, references: Record<string, string>, found: Map<string, number[]>) => {
+    for (const [arg, value] of Object.entries(args)) {
+        for (const item of Array.isArray(value) ? value : [value]) {
+            if (typeof item === "number" && references[arg]) {
+                found.set(references[arg], [...(found.get(references[arg]) || []), item]);
+            } else if (item && typeof item === "object") {
+                collectReferences(item as Record<string, unknown>, references, found);
+            }
+        }
+    }
+};
+
+// Tools whose record arguments (`args`) belong to a table picked by another argument (`by`), or to
+// `otherwise` for values not listed
+const CHOSEN_TABLES: Record<string, { by: string; args: string[]; tables: Record<string, string>; otherwise?: string }> = {
+    merge_records: { by: "entity", args: ["keep_id", "merge_ids"], tables: { inquiry: "enquiry", student: "student", parent: "parent" } },
+    delete_reception_config: {
+        by: "type",
+        args: ["id"],
+        tables: {
+            call_purpose: "call_purpose", complaint_type: "complaint_type", enquiry_reference: "enquiry_reference",
+            enquiry_response: "enquiry_response", visitor_purpose: "visitor_purpose"
+        },
+    },
+    // Products are issued to students or, under any other role, to staff
+    create_product_issue: { by: "role_id", args: ["user_id"], tables: { [STUDENT_ROLE_ID]: "student" }, otherwise: "staff" },
+};
+
+// The records a call names, grouped by table
+export const referencedRecords = (tool: string, args: Record<string, unknown>): Map<string, number[]> => {
+    const references = { ...REFERENCE_ARGS, ...TOOL_REFERENCES[tool] };
+    const chosen = CHOSEN_TABLES[tool];
+    const table = chosen && (chosen.tables[String(args[chosen.by])] || chosen.otherwise);
+    if (table) {
+        for (const arg of chosen.args) references[arg] = table;
+    }
+
+    const found = new Map<string, number[]>();
+    collectReferences(args, references, found);
+    return found;
+};
+
+// Pins a tool call to the caller's branch: rejects a foreign branch_id or record ID, and injects
+// branch_id so every handler reads and writes only its own branch. Superadmin keys pass through.
+export const scopeToBranch = async (tool: string, args: Record<string, unknown> = {}): Promise<Record<string, unknown>> => {
+    const { branchId } = await resolveIdentity();
+    if (branchId === null) return args;
+
+    if (args.branch_id !== undefined && args.branch_id !== branchId) {
+        throw new McpError(ErrorCode.InvalidRequest, `Branch ${args.branch_id} is outside this API key's branch`);
+    }
+
+    for (const [table, ids] of referencedRecords(tool, args)) {
+        await assertInBranch(table, ids, branchId);
+    }
+
+    return { ...args, branch_id: branchId };
+};
@@ -0,0 +1,43 @@
+import { DatabaseError } from "./db-errors";
+
+// Stops calling an endpoint that keeps failing. After `threshold` consecutive failures the circuit
+// opens and calls fail fast for `cooldownMs`; then a single trial call is let through, which
+// closes the circuit on success or re-opens it on failure.
+export class CircuitBreaker {
+    private failures = 0;
+    private openedAt: number | null = null;
+    private trialInFlight = false;
+
+    constructor(private name: string, private threshold: number, private cooldownMs: number) { }
+
+    // Throws instead of letting a call through while the circuit is open
+    before() {
+        if (this.openedAt === null) return;
+
+        const remaining = this.openedAt + this.cooldownMs - Date.now();
+        if (remaining > 0 || this.trialInFlight) {
+            const seconds = Math.max(1, Math.ceil(remaining / 1000));
+            throw new DatabaseError("network", `${this.name} failed ${this.failures} times in a row; not retrying for ${seconds}s`);
+        }
+        this.trialInFlight = true;
+    }
+
+    success() {
+        this.failures = 0;
+        this.openedAt = null;
+        this.trialInFlight = false;
+    }
+
+    failure() {
+        this.failures++;
+        this.trialInFlight = false;
+        if (this.openedAt !== null || this.failures >= this.threshold) {
+            this.openedAt = Date.now();
+        }
+    }
+
+    get state(): "closed" | "open" | "half-open" {
+        if (this.openedAt === null) return "closed";
+        return this.openedAt + this.cooldownMs > Date.now() ? "open" : "half-open";
+    }
+}
@@ -0,0 +1,6 @@
+// Calendar dates follow the school, not the server: SCHOOL_TIMEZONE (an IANA zone, default Asia/Kolkata)
+// decides when "today" starts, so a server on UTC doesn't serve yesterday's date until 05:30 IST.
+const SCHOOL_TIMEZONE = process.env.SCHOOL_TIMEZONE || "Asia/Kolkata";
+
+// Today as YYYY-MM-DD in the school's timezone (en-CA formats dates that way)
+export const today = (): string => new Intl.DateTimeFormat("en-CA", { timeZone: SCHOOL_TIMEZONE }).format(new Date());
@@ -0,0 +1,57 @@
+import { McpError } from "@modelcontextprotocol/sdk/types";
+
+// Server-defined JSON-RPC codes (-32000 to -32099 are reserved for them), one per kind of database failure
+export enum DatabaseErrorCode {
+    AuthFailed = -32001,
+    DuplicateKey = -32002,
+    SqlError = -32003,
+    Unavailable = -32004,
+}
+
+export type DatabaseErrorKind = "auth" | "duplicate" | "sql" | "network";
+
+const CODES: Record<DatabaseErrorKind, DatabaseErrorCode> = {
+    auth: DatabaseErrorCode.AuthFailed,
+    duplicate: DatabaseErrorCode.DuplicateKey,
+    sql: DatabaseErrorCode.SqlError,
+    network: DatabaseErrorCode.Unavailable,
+};
+
+// Only the message reaches the client, so it says whether repeating the call is safe
+const ADVICE: Record<DatabaseErrorKind, string> = {
+    auth: "Database rejected the API key (do not retry)",
+    duplicate: "Duplicate record (do not retry; the row already exists)",
+    sql: "Database query failed (do not retry unchanged)",
+    network: "Database unavailable (safe to retry later)",
+};
+
+export class DatabaseError extends McpError {
+    constructor(readonly kind: DatabaseErrorKind, detail: string, advice = ADVICE[kind]) {
+        super(CODES[kind], `${advice}: ${detail}`);
+    }
+}
+
+// A write whose request was sent but never answered may have been applied
+export const unknownOutcome = (detail: string) =>
+    new DatabaseError("network", detail, "Database did not answer; the write may already have been applied (check before retrying)");
+
+const NETWORK_CODES = new Set([
+    "ECONNREFUSED", "ECONNRESET", "ECONNABORTED", "ETIMEDOUT", "ENOTFOUND", "EAI_AGAIN", "EPIPE",
+    "PROTOCOL_CONNECTION_LOST", "ER_CON_COUNT_ERROR",
+]);
+
+// Connection refused or unresolved host: nothing was sent, so even writes are safe to repeat
+const NOT_SENT_CODES = new Set(["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN", "ER_CON_COUNT_ERROR"]);
+
+export const wasNotSent = (error: any) => NOT_SENT_CODES.has(error?.code);
+
+// Sorts a failure from axios (proxy) or mysql2 (direct) into one of the kinds above
+export const classifyDatabaseError = (error: any, message: string = error?.message || String(error)): DatabaseErrorKind => {
+    const status = error?.response?.status;
+    if (status === 401 || status === 403) return "auth";
+    if (status >= 500 || NETWORK_CODES.has(error?.code) || (error?.request && !error?.response)) return "network";
+
+    if (error?.code === "ER_DUP_ENTRY" || /Duplicate entry/i.test(message)) return "duplicate";
+    if (/^ER_(DBACCESS|ACCESS|SPECIFIC_ACCESS)_DENIED/.test(error?.code || "") || /api key|unauthori[sz]ed|access denied/i.test(message)) return "auth";
+    return "sql";
+};
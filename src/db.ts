@@ -0,0 +1,444 @@
+import axios from "axios";
+import mysql from "mysql2/promise";
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { CircuitBreaker } from "./circuit-breaker";
+import { classifyDatabaseError, DatabaseError, unknownOutcome, wasNotSent } from "./db-errors";
+import { cacheableTables, referenceCache, writtenReferenceTable } from "./reference-cache";
+
+// Storage for request-scoped API key
+export const storage = new AsyncLocalStorage<string>();
+
+export interface PlannedStatement {
+    sql: string;
+    params: any[];
+    affected_rows: number;
+}
+
+// While a caller runs inside dryRun.run([], ...), writes are not executed: each one is appended to
+// the array together with the number of rows it would have touched.
+export const dryRun = new AsyncLocalStorage<PlannedStatement[]>();
+
+// When a caller runs inside writeLog.run({}, ...), the insertId of every INSERT is recorded under its
+// table, so the audit trail can record which rows a tool call created.
+export const writeLog = new AsyncLocalStorage<Record<string, number[]>>();
+
+const INSERTED_TABLE = /^\s*(?:INSERT\s+(?:IGNORE\s+)?INTO|REPLACE\s+INTO)\s+`?(\w+)`?/i;
+
+export const noteWrite = (sql: string, result: any) => {
+    const created = writeLog.getStore();
+    const table = sql.match(INSERTED_TABLE)?.[1];
+    if (created && table && result && Number(result.insertId) > 0) {
+        created[table] = [...(created[table] || []), Number(result.insertId)];
+    }
+};
+
+export interface Statement {
+    sql: string;
+    params?: any[];
+}
+
+// Placeholder for the insertId of an earlier statement in the same batch, so dependent rows
+// (bill -> bill details, student -> enroll) can be sent together. `prefix` turns it into a
+// string such as "student42" for generated usernames.
+export interface InsertIdRef {
+    $insertId: number;
+    prefix?: string;
+}
+
+export const insertIdOf = (index: number, prefix?: string): InsertIdRef =>
+    prefix === undefined ? { $insertId: index } : { $insertId: index, prefix };
+
+const isInsertIdRef = (value: any): value is InsertIdRef =>
+    value !== null && typeof value === "object" && typeof value.$insertId === "number";
+
+// Substitutes InsertIdRef placeholders with the insertId of already-executed statements
+export const resolveParams = (params: any[], results: any[]): any[] =>
+    params.map((value) => {
+        if (!isInsertIdRef(value)) return value;
+        const result = results[value.$insertId];
+        if (!result || result.insertId === undefined) {
+            throw new Error(`Batch statement ${value.$insertId} has no insertId to reference`);
+        }
+        return value.prefix === undefined ? result.insertId : `${value.prefix}${result.insertId}`;
+    });
+
+// Who an API key belongs to. branchId is null for keys that see every branch (RAMOM superadmin).
+export interface Identity {
+    userId: number;
+    roleId: number;
+    branchId: number | null;
+}
+
+const toIdentity = (raw: any): Identity => ({
+    userId: Number(raw.user_id),
+    roleId: Number(raw.role_id),
+    branchId: raw.branch_id ? Number(raw.branch_id) : null,
+});
+
+// Common contract for every database backend. Results mirror mysql2: [rows, fields] for SELECT,
+// [OkPacket-like object, undefined] for INSERT/UPDATE/DELETE.
+export interface DatabaseDriver {
+    execute(sql: string, params?: any[]): Promise<[any, any]>;
+    // Runs all statements atomically (all commit or all roll back) and returns the first element
+    // of each statement's result, in order.
+    batch(statements: Statement[]): Promise<any[]>;
+    // Resolves the identity behind the request-scoped API key
+    whoami(): Promise<Identity>;
+}
+
+const isWrite = (sql: string) => !/^\s*(SELECT|SHOW|DESCRIBE|EXPLAIN)\b/i.test(sql);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// SQL Proxy Class: forwards statements over HTTP to the RAMOM sql_execute endpoint.
+// Requests time out after RAMOM_TIMEOUT_MS. Reads (and whoami) are retried up to RAMOM_RETRIES times
+// with exponential backoff when the endpoint is unreachable; writes never are, since a lost response
+// doesn't mean the write was lost. RAMOM_BREAKER_THRESHOLD consecutive failures open a circuit that
+// fails calls fast for RAMOM_BREAKER_COOLDOWN_MS.
+export class SqlProxy implements DatabaseDriver {
+    private apiUrl: string;
+    private batchUrl: string;
+    private whoamiUrl: string;
+    private defaultApiKey: string;
+    private timeoutMs: number;
+    private retries: number;
+    private retryDelayMs: number;
+    readonly breaker: CircuitBreaker;
+
+    constructor() {
+        this.apiUrl = process.env.RAMOM_API_URL || "http://localhost/ramom/mcp/sql_execute";
+        this.batchUrl = process.env.RAMOM_BATCH_URL || this.apiUrl.replace(/sql_execute\/?$/, "sql_batch");
+        this.whoamiUrl = process.env.RAMOM_WHOAMI_URL || this.apiUrl.replace(/sql_execute\/?$/, "whoami");
+        this.defaultApiKey = process.env.RAMOM_API_KEY || "";
+        this.timeoutMs = parseInt(process.env.RAMOM_TIMEOUT_MS || "15000", 10);
+        this.retries = parseInt(process.env.RAMOM_RETRIES || "2", 10);
+        this.retryDelayMs = parseInt(process.env.RAMOM_RETRY_DELAY_MS || "250", 10);
+        this.breaker = new CircuitBreaker(
+            "RAMOM endpoint",
+            parseInt(process.env.RAMOM_BREAKER_THRESHOLD || "5", 10),
+            parseInt(process.env.RAMOM_BREAKER_COOLDOWN_MS || "30000", 10)
+        );
+    }
+
+    private post(url: string, body: any) {
+        // Prefer request-scoped key, fall back to env var
+        const apiKey = storage.getStore() || this.defaultApiKey;
+
+        return axios.post(url, body, {
+            timeout: this.timeoutMs,
+            headers: {
+                "Content-Type": "application/json",
+                "X-API-KEY": apiKey,
+            },
+        });
+    }
+
+    // Posts to the endpoint and returns the response body, or throws a classified DatabaseError
+    private async send(label: string, url: string, body: any, idempotent: boolean): Promise<any> {
+        for (let attempt = 0; ; attempt++) {
+            this.breaker.before();
+
+            let data: any;
+            try {
+                data = (await this.post(url, body)).data;
+            } catch (error: any) {
+                const kind = classifyDatabaseError(error);
+                console.error(`${label} Error:`, error.message);
+                if (error.response) {
+                    console.error("Response data:", error.response.data);
+                }
+
+                if (kind !== "network") {
+                    // The endpoint answered, so it is up
+                    this.breaker.success();
+                    throw new DatabaseError(kind, error.message);
+                }
+
+                this.breaker.failure();
+                if (idempotent && attempt < this.retries) {
+                    await sleep(this.retryDelayMs * 2 ** attempt);
+                    continue;
+                }
+                throw idempotent || wasNotSent(error) ? new DatabaseError("network", error.message) : unknownOutcome(error.message);
+            }
+
+            this.breaker.success();
+            // Handle CodeIgniter/PHP errors that return 200 OK but error status in JSON
+            if (data.status === 'error') {
+                const message = data.message || 'Unknown database error';
+                console.error(`${label} Error:`, message);
+                throw new DatabaseError(classifyDatabaseError(data, message), message);
+            }
+            return data;
+        }
+    }
+
+    async execute(sql: string, params: any[] = []): Promise<[any, any]> {
+        const data = await this.send("SQL Proxy", this.apiUrl, { sql, params }, !isWrite(sql));
+
+        // Create a pseudo-structure matching mysql2 [rows, fields]
+        // For SELECT: data is the array of rows
+        // For others: data might have affectedRows, insertId
+
+        if (Array.isArray(data)) {
+            return [data, []]; // rows, fields
+        } else {
+            // For INSERT/UPDATE/DELETE, mysql2 returns an 'OkPacket' object as the first element
+            // and undefined as the second.
+            noteWrite(sql, data);
+            return [data, undefined];
+        }
+    }
+
+    // Batch contract with RAMOM's sql_batch endpoint:
+    //   request:  { statements: [{ sql, params }] }  where a param may be { $insertId: n, prefix? }
+    //   response: { results: [...] }  one entry per statement, shaped like sql_execute's response
+    // The endpoint wraps the statements in BEGIN/COMMIT and rolls back on the first failure.
+    async batch(statements: Statement[]): Promise<any[]> {
+        const data = await this.send("SQL Proxy Batch", this.batchUrl, {
+            statements: statements.map((s) => ({ sql: s.sql, params: s.params || [] })),
+        }, false);
+
+        if (!Array.isArray(data.results)) {
+            throw new DatabaseError("sql", "Malformed batch response: missing results");
+        }
+        data.results.forEach((result: any, index: number) => noteWrite(statements[index].sql, result));
+        return data.results;
+    }
+
+    // RAMOM's whoami endpoint answers { user_id, role_id, branch_id } for the X-API-KEY it receives.
+    // Any refusal here means the key itself was not accepted.
+    async whoami(): Promise<Identity> {
+        try {
+            return toIdentity(await this.send("SQL Proxy Whoami", this.whoamiUrl, {}, true));
+        } catch (error: any) {
+            if (error instanceof DatabaseError && error.kind === "network") throw error;
+            throw new DatabaseError("auth", `Unable to identify API key: ${error.message}`);
+        }
+    }
+}
+
+const isStdio = () => process.argv.includes("--stdio") || process.env.MCP_TRANSPORT === "stdio";
+
+// Native mysql2 pool for on-premise installs where RAMOM's database is reachable directly.
+// Uses query() (client-side placeholder substitution) rather than execute() so statements behave
+// the same as through the PHP proxy, e.g. for `LIMIT ?` with numeric params.
+export class MysqlDriver implements DatabaseDriver {
+    private pool: mysql.Pool;
+
+    constructor() {
+        this.pool = mysql.createPool({
+            host: process.env.DB_HOST || "localhost",
+            port: parseInt(process.env.DB_PORT || "3306", 10),
+            user: process.env.DB_USER || "root",
+            password: process.env.DB_PASS || "",
+            database: process.env.DB_NAME || "ramom",
+            connectionLimit: parseInt(process.env.DB_POOL_SIZE || "10", 10),
+            // RAMOM returns dates as strings through the proxy; keep results identical
+            dateStrings: true,
+        });
+    }
+
+    async execute(sql: string, params: any[] = []): Promise<[any, any]> {
+        try {
+            const [rows, fields] = await this.pool.query(sql, params);
+            noteWrite(sql, rows);
+            return [rows, fields];
+        } catch (error: any) {
+            console.error("MySQL Error:", error.message);
+            throw new DatabaseError(classifyDatabaseError(error), error.message);
+        }
+    }
+
+    async batch(statements: Statement[]): Promise<any[]> {
+        const connection = await this.pool.getConnection().catch((error) => {
+            throw new DatabaseError(classifyDatabaseError(error), error.message);
+        });
+        const results: any[] = [];
+        try {
+            await connection.beginTransaction();
+            for (const statement of statements) {
+                const [result] = await connection.query(statement.sql, resolveParams(statement.params || [], results));
+                results.push(result);
+            }
+            await connection.commit();
+            results.forEach((result, index) => noteWrite(statements[index].sql, result));
+            return results;
+        } catch (error: any) {
+            await connection.rollback().catch(() => undefined);
+            console.error("MySQL Batch Error:", error.message);
+            throw new DatabaseError(classifyDatabaseError(error), `${error.message} (rolled back)`);
+        } finally {
+            connection.release();
+        }
+    }
+
+    // Without RAMOM in front there is nothing to validate keys against, so identities come from
+    // MCP_API_KEYS, a JSON map of key -> { user_id, role_id, branch_id }. When it is unset, only a local
+    // stdio client gets RAMOM_USER_ID / RAMOM_ROLE_ID / RAMOM_BRANCH_ID (default: superadmin, all
+    // branches); over HTTP anyone could connect, so every request is refused.
+    async whoami(): Promise<Identity> {
+        if (!process.env.MCP_API_KEYS) {
+            if (!isStdio()) {
+                throw new DatabaseError("auth", "Unable to identify API key: set MCP_API_KEYS to serve HTTP clients with DB_DRIVER=mysql");
+            }
+            return toIdentity({
+                user_id: process.env.RAMOM_USER_ID || 1,
+                role_id: process.env.RAMOM_ROLE_ID || 1,
+                branch_id: process.env.RAMOM_BRANCH_ID,
+            });
+        }
+
+        const apiKey = storage.getStore() || process.env.RAMOM_API_KEY || "";
+        const identities = JSON.parse(process.env.MCP_API_KEYS);
+        if (!apiKey || !identities[apiKey]) {
+            throw new DatabaseError("auth", "Unable to identify API key: not listed in MCP_API_KEYS");
+        }
+        return toIdentity(identities[apiKey]);
+    }
+}
+
+// Counts the rows a write would touch without running it: UPDATE/DELETE become a COUNT(*) over the
+// same tables and WHERE clause, INSERTs count their VALUES groups.
+const countAffected = async (driver: DatabaseDriver, sql: string, params: any[]): Promise<number> => {
+    const update = sql.match(/^\s*UPDATE\s+([\s\S]+?)\s+SET\s+([\s\S]+?)(?:\s+WHERE\s+([\s\S]+))?$/i);
+    if (update) {
+        const setParams = (update[2].match(/\?/g) || []).length;
+        const where = update[3] ? ` WHERE ${update[3]}` : "";
+        const [rows] = await driver.execute(`SELECT COUNT(*) AS affected FROM ${update[1]}${where}`, params.slice(setParams));
+        return Number((rows as any[])[0]?.affected) || 0;
+    }
+
+    const remove = sql.match(/^\s*DELETE\s+(?:\w+\s+)?FROM\s+([\s\S]+)$/i);
+    if (remove) {
+        const [rows] = await driver.execute(`SELECT COUNT(*) AS affected FROM ${remove[1]}`, params);
+        return Number((rows as any[])[0]?.affected) || 0;
+    }
+
+    const values = sql.match(/\bVALUES\s*([\s\S]+)$/i);
+    return values ? (values[1].match(/\)\s*,\s*\(/g) || []).length + 1 : 0;
+};
+
+// Wraps a backend so that, inside dryRun.run(), writes are planned instead of executed.
+// Reads still run for real so handlers can look up what they need to build their statements.
+class PlanningDriver implements DatabaseDriver {
+    constructor(private driver: DatabaseDriver) { }
+
+    private async plan(plan: PlannedStatement[], sql: string, params: any[]) {
+        // Rows inserted earlier in the same plan don't exist, so references to them count as NULL
+        const countParams = params.map((value) => value !== null && typeof value === "object" && "$insertId" in value ? null : value);
+        const affected_rows = await countAffected(this.driver, sql, countParams);
+        plan.push({ sql: sql.trim(), params, affected_rows });
+        return { affectedRows: affected_rows, insertId: 0 };
+    }
+
+    async execute(sql: string, params: any[] = []): Promise<[any, any]> {
+        const plan = dryRun.getStore();
+        if (!plan || !isWrite(sql)) return this.driver.execute(sql, params);
+        return [await this.plan(plan, sql, params), undefined];
+    }
+
+    async batch(statements: Statement[]): Promise<any[]> {
+        const plan = dryRun.getStore();
+        if (!plan) return this.driver.batch(statements);
+
+        const results = [];
+        for (const statement of statements) {
+            results.push(await this.plan(plan, statement.sql, statement.params || []));
+        }
+        return results;
+    }
+
+    whoami(): Promise<Identity> {
+        return this.driver.whoami();
+    }
+}
+
+// Wraps a backend so reads of reference tables are served from referenceCache, and writes to them
+// invalidate it. Invalidation also runs when a write fails, since a lost response may hide a commit.
+class CachingDriver implements DatabaseDriver {
+    constructor(private driver: DatabaseDriver) { }
+
+    private async invalidateAfter<T>(sqls: string[], write: () => Promise<T>): Promise<T> {
+        try {
+            return await write();
+        } finally {
+            for (const table of new Set(sqls.map(writtenReferenceTable))) {
+                if (table) referenceCache.invalidate(table);
+            }
+        }
+    }
+
+    async execute(sql: string, params: any[] = []): Promise<[any, any]> {
+        if (isWrite(sql)) return this.invalidateAfter([sql], () => this.driver.execute(sql, params));
+
+        const tables = cacheableTables(sql);
+        if (!tables) return this.driver.execute(sql, params);
+
+        const partition = storage.getStore() || "";
+        const cached = referenceCache.get(partition, sql, params);
+        if (cached) return cached;
+
+        const result = await this.driver.execute(sql, params);
+        referenceCache.set(partition, sql, params, tables, result);
+        return result;
+    }
+
+    batch(statements: Statement[]): Promise<any[]> {
+        return this.invalidateAfter(statements.map((s) => s.sql), () => this.driver.batch(statements));
+    }
+
+    whoami(): Promise<Identity> {
+        return this.driver.whoami();
+    }
+}
+
+// DB_DRIVER selects the backend: "proxy" (default, HTTP via RAMOM) or "mysql" (direct pool)
+export const createDriver = (driver = process.env.DB_DRIVER || "proxy"): DatabaseDriver => {
+    switch (driver) {
+        case "proxy":
+            return new SqlProxy();
+        case "mysql":
+            return new MysqlDriver();
+        default:
+            throw new Error(`Unknown DB_DRIVER "${driver}" (expected "proxy" or "mysql")`);
+    }
+};
+
+let backend = createDriver();
+
+// Tables made by lazyTable exist only on the backend they were created on
+const lazyTableResets: (() => void)[] = [];
+
+// Replaces the backend behind pool, e.g. with an offline SqliteDriver in the test harness
+export const useDriver = (driver: DatabaseDriver) => {
+    backend = driver;
+    lazyTableResets.forEach((reset) => reset());
+};
+
+const currentBackend: DatabaseDriver = {
+    execute: (sql, params) => backend.execute(sql, params),
+    batch: (statements) => backend.batch(statements),
+    whoami: () => backend.whoami(),
+};
+
+export const pool: DatabaseDriver = new PlanningDriver(new CachingDriver(currentBackend));
+
+// Creates a table the server keeps alongside RAMOM's on first use. Retried on the next call if creation
+// failed (e.g. a transient proxy error). The table is created even during a dry run, so a preview can read it.
+export const lazyTable = (ddl: string) => {
+    let ready: Promise<unknown> | undefined;
+    lazyTableResets.push(() => {
+        ready = undefined;
+    });
+    return () => {
+        if (!ready) {
+            ready = dryRun.exit(() => pool.execute(ddl)).catch((error) => {
+                ready = undefined;
+                throw error;
+            });
+        }
+        return ready;
+    };
+};
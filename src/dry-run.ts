@@ -0,0 +1,38 @@
+import { dryRun, PlannedStatement } from "./db";
+import { isMutatingTool } from "./permissions";
+
+const DRY_RUN_PROPERTY = {
+    type: "boolean",
+    description: "Preview only: return the statements this call would execute and the rows they would affect, without writing",
+};
+
+// Advertises the dry_run argument on every tool that changes data
+export const withDryRunOption = <T extends { name: string; inputSchema: { properties?: Record<string, unknown> } }>(tools: T[]): T[] =>
+    tools.map((tool) => isMutatingTool(tool.name)
+        ? { ...tool, inputSchema: { ...tool.inputSchema, properties: { ...tool.inputSchema.properties, dry_run: DRY_RUN_PROPERTY } } }
+        : tool);
+
+export const isDryRun = (tool: string, args?: Record<string, unknown>): boolean =>
+    args?.dry_run === true && isMutatingTool(tool);
+
+// Runs the tool with writes captured instead of executed and reports the plan. The tool's own
+// message is included as-is; IDs it reports for new rows are placeholders (0).
+export const previewToolCall = async <T extends { isError?: boolean; content: { type: string; text?: string }[] }>(
+    tool: string,
+    run: () => Promise<T>
+) => {
+    const statements: PlannedStatement[] = [];
+    const result = await dryRun.run(statements, run);
+
+    const preview = {
+        dry_run: true,
+        tool,
+        statements,
+        total_affected_rows: statements.reduce((sum, statement) => sum + statement.affected_rows, 0),
+        tool_result: result.content.map((item) => item.text || "").join("\n"),
+    };
+    return {
+        content: [{ type: "text", text: JSON.stringify(preview, null, 2) }],
+        isError: result.isError,
+    };
+};
@@ -0,0 +1,226 @@
+import { pool } from "./db";
+
+export const DUPLICATE_ENTITIES = ["inquiry", "student", "parent"] as const;
+
+export type DuplicateEntity = (typeof DUPLICATE_ENTITIES)[number];
+
+// What duplicate detection compares, whichever table the record comes from
+export interface PersonRecord {
+    id?: number;
+    name: string;
+    mobile?: string | null;
+    email?: string | null;
+    birthday?: string | null;
+}
+
+interface Source {
+    // SELECT of id, name (or first_name and last_name), mobile, email and birthday
+    select: string;
+    id: string;
+    // Condition limiting records to a branch (students through their enrollment)
+    branch: string;
+    mobile: string;
+    email: string;
+    // Inquiries and parents have no date of birth
+    birthday?: string;
+}
+
+const SOURCES: Record<DuplicateEntity, Source> = {
+    inquiry: {
+        select: "SELECT id, name, mobile_no AS mobile, email, NULL AS birthday FROM enquiry",
+        id: "id", branch: "branch_id = ?", mobile: "mobile_no", email: "email",
+    },
+    student: {
+        select: "SELECT s.id, s.first_name, s.last_name, s.mobileno AS mobile, s.email, s.birthday FROM student s",
+        id: "s.id", branch: "EXISTS (SELECT 1 FROM enroll e WHERE e.student_id = s.id AND e.branch_id = ?)",
+        mobile: "s.mobileno", email: "s.email", birthday: "s.birthday",
+    },
+    parent: {
+        select: "SELECT id, name, mobileno AS mobile, email, NULL AS birthday FROM parent",
+        id: "id", branch: "branch_id = ?", mobile: "mobileno", email: "email",
+    },
+};
+
+const queryPeople = async (entity: DuplicateEntity, conditions: string[], params: unknown[]): Promise<Required<PersonRecord>[]> => {
+    const where = conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : "";
+    const [rows] = await pool.execute(`${SOURCES[entity].select}${where}`, params);
+    return (rows as any[]).map((row) => ({
+        id: Number(row.id),
+        name: row.name ?? [row.first_name, row.last_name].filter(Boolean).join(" "),
+        mobile: row.mobile ?? null,
+        email: row.email ?? null,
+        birthday: row.birthday ?? null,
+    }));
+};
+
+export const loadPeople = async (entity: DuplicateEntity, branchId?: number, ids?: number[]): Promise<Required<PersonRecord>[]> => {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (branchId !== undefined) {
+        conditions.push(SOURCES[entity].branch);
+        params.push(branchId);
+    }
+    if (ids) {
+        conditions.push(`${SOURCES[entity].id} IN (${ids.map(() => "?").join(",")})`);
+        params.push(...ids);
+    }
+    return queryPeople(entity, conditions, params);
+};
+
+// "+91 98765-43210" and "098765 43210" are the same number: compare the last ten digits
+export const normalizeMobile = (mobile?: string | null): string => {
+    const digits = String(mobile || "").replace(/\D/g, "");
+    return digits.length > 10 ? digits.slice(-10) : digits;
+};
+
+const normalizeEmail = (email?: string | null) => String(email || "").trim().toLowerCase();
+
+const normalizeDate = (date?: string | null) => (date ? String(date).slice(0, 10) : "");
+
+const SOUNDEX_CODES: Record<string, string> = {
+    b: "1", f: "1", p: "1", v: "1",
+    c: "2", g: "2", j: "2", k: "2", q: "2", s: "2", x: "2", z: "2",
+    d: "3", t: "3",
+    l: "4",
+    m: "5", n: "5",
+    r: "6",
+};
+
+// American Soundex, so spellings such as Mohammed/Mohammad or Asha/Aasha share a code
+export const soundex = (word: string): string => {
+    const letters = word.toLowerCase().replace(/[^a-z]/g, "");
+    if (!letters) return "";
+
+    let code = letters[0].toUpperCase();
+    let previous = SOUNDEX_CODES[letters[0]] || "";
+    for (const letter of letters.slice(1)) {
+        const digit = SOUNDEX_CODES[letter] || "";
+        if (digit && digit !== previous) code += digit;
+        // Letters separated only by h or w count as one; a vowel in between lets them repeat
+        if (letter !== "h" && letter !== "w") previous = digit;
+        if (code.length === 4) break;
+    }
+    return code.padEnd(4, "0");
+};
+
+const nameCodes = (name: string) => name.split(/\s+/).map(soundex).filter(Boolean);
+
+// Every word of the shorter name sounds like a word of the longer one: "Asha Verma" matches "Aasha Rani Varma"
+const namesMatch = (a: string, b: string): boolean => {
+    const [shorter, longer] = [nameCodes(a), nameCodes(b)].sort((x, y) => x.length - y.length);
+    return shorter.length > 0 && shorter.every((code) => longer.includes(code));
+};
+
+// Why two records look like the same person, or undefined if they don't. A matching name needs one
+// more matching detail; a parent's mobile number alone is enough, as it identifies the household.
+// Different dates of birth rule a match out.
+export const duplicateReasons = (entity: DuplicateEntity, a: PersonRecord, b: PersonRecord): string[] | undefined => {
+    const [birthdayA, birthdayB] = [normalizeDate(a.birthday), normalizeDate(b.birthday)];
+    if (birthdayA && birthdayB && birthdayA !== birthdayB) return undefined;
+
+    const mobileA = normalizeMobile(a.mobile);
+    const emailA = normalizeEmail(a.email);
+    const reasons = [
+        ...(namesMatch(a.name, b.name) ? ["name"] : []),
+        ...(mobileA && mobileA === normalizeMobile(b.mobile) ? ["mobile"] : []),
+        ...(emailA && emailA === normalizeEmail(b.email) ? ["email"] : []),
+        ...(birthdayA && birthdayA === birthdayB ? ["birthday"] : []),
+    ];
+
+    const matched = reasons.includes("name") ? reasons.length > 1 : entity === "parent" && reasons.includes("mobile");
+    return matched ? reasons : undefined;
+};
+
+// Records sharing a detail that a match requires besides the name, so only those pairs are compared
+const blockingKeys = (record: PersonRecord): string[] => [
+    ...(normalizeMobile(record.mobile) ? [`mobile:${normalizeMobile(record.mobile)}`] : []),
+    ...(normalizeEmail(record.email) ? [`email:${normalizeEmail(record.email)}`] : []),
+    ...(normalizeDate(record.birthday) ? [`birthday:${normalizeDate(record.birthday)}`] : []),
+];
+
+export interface DuplicatePair {
+    id: number;
+    name: string;
+    duplicate_id: number;
+    duplicate_name: string;
+    reasons: string;
+}
+
+// Every pair of likely duplicates among an entity's records, lower ID first
+export const findDuplicatePairs = async (entity: DuplicateEntity, branchId?: number): Promise<DuplicatePair[]> => {
+    const records = await loadPeople(entity, branchId);
+
+    const blocks = new Map<string, Required<PersonRecord>[]>();
+    for (const record of records) {
+        for (const key of blockingKeys(record)) {
+            blocks.set(key, [...(blocks.get(key) || []), record]);
+        }
+    }
+
+    const pairs = new Map<string, DuplicatePair>();
+    for (const block of blocks.values()) {
+        for (let i = 0; i < block.length; i++) {
+            for (let j = i + 1; j < block.length; j++) {
+                const [a, b] = [block[i], block[j]].sort((x, y) => x.id - y.id);
+                const key = `${a.id}:${b.id}`;
+                if (pairs.has(key)) continue;
+
+                const reasons = duplicateReasons(entity, a, b);
+                if (reasons) {
+                    pairs.set(key, { id: a.id, name: a.name, duplicate_id: b.id, duplicate_name: b.name, reasons: reasons.join(", ") });
+                }
+            }
+        }
+    }
+
+    return [...pairs.values()].sort((a, b) => a.id - b.id || a.duplicate_id - b.duplicate_id);
+};
+
+// The separators people type into phone numbers, stripped in SQL as normalizeMobile strips non-digits
+const MOBILE_SEPARATORS = [" ", "-", "+", "(", ")", "."];
+
+const mobileDigits = (column: string) => MOBILE_SEPARATORS.reduce((sql, separator) => `REPLACE(${sql}, '${separator}', '')`, column);
+
+// Records sharing a mobile number, email or date of birth with `record`. Every match needs one of them,
+// so only these few are fetched and scored rather than the whole branch.
+const loadCandidates = async (entity: DuplicateEntity, record: PersonRecord, branchId?: number): Promise<Required<PersonRecord>[]> => {
+    const source = SOURCES[entity];
+    const shared: string[] = [];
+    const params: unknown[] = [];
+
+    const mobile = normalizeMobile(record.mobile);
+    if (mobile) {
+        shared.push(`${mobileDigits(source.mobile)} LIKE ?`);
+        params.push(`%${mobile}`);
+    }
+    const email = normalizeEmail(record.email);
+    if (email) {
+        shared.push(`LOWER(TRIM(${source.email})) = ?`);
+        params.push(email);
+    }
+    const birthday = normalizeDate(record.birthday);
+    if (birthday && source.birthday) {
+        shared.push(`${source.birthday} LIKE ?`);
+        params.push(`${birthday}%`);
+    }
+    if (shared.length === 0) return [];
+
+    const conditions = [`(${shared.join(" OR ")})`];
+    if (branchId !== undefined) {
+        conditions.push(source.branch);
+        params.push(branchId);
+    }
+    return queryPeople(entity, conditions, params);
+};
+
+// Appended to a create tool's result when the new record looks like one already in the branch
+export const duplicateWarning = async (entity: DuplicateEntity, record: PersonRecord, branchId?: number): Promise<string> => {
+    const matches = (await loadCandidates(entity, record, branchId)).flatMap((existing) => {
+        const reasons = duplicateReasons(entity, record, existing);
+        return reasons ? [`${entity} ${existing.id} "${existing.name}" (${reasons.join(", ")})`] : [];
+    });
+
+    return matches.length > 0
+        ? `\nWarning: possible duplicate of ${matches.slice(0, 5).join("; ")}. If it is the same ${entity}, combine them with merge_records.`
+        : "";
+};
@@ -0,0 +1,56 @@
+import { pool } from "./db";
+import { resolveIdentity } from "./identity";
+
+export interface DueFollowUpFilter {
+    branch_id?: number;
+    created_by?: number;
+}
+
+// Open inquiries whose latest follow-up's next date is on or before `asOf`, one row per inquiry. Only the
+// latest follow-up counts: an older overdue next_date was superseded by the call that followed it.
+export const dueFollowUpsQuery = (asOf: string, filter: DueFollowUpFilter = {}): { query: string; params: unknown[] } => {
+    let query = `SELECT e.created_by AS staff_id, st.name AS staff_name, e.id AS enquiry_id, e.name, e.mobile_no,
+                        c.name AS class_name, f.next_date, DATEDIFF(?, f.next_date) AS days_overdue,
+                        f.date AS last_follow_up_date, f.response AS last_response, f.note AS last_note
+                 FROM enquiry e
+                 JOIN enquiry_follow_up f ON f.enquiry_id = e.id
+                 LEFT JOIN class c ON e.class_id = c.id
+                 LEFT JOIN staff st ON e.created_by = st.id
+                 WHERE f.id = (SELECT latest.id FROM enquiry_follow_up latest WHERE latest.enquiry_id = e.id ORDER BY latest.date DESC, latest.id DESC LIMIT 1)
+                   AND f.next_date IS NOT NULL AND f.next_date <= ?
+                   AND (e.status IS NULL OR e.status NOT IN ('converted', 'dead'))`;
+    const params: unknown[] = [asOf, asOf];
+
+    if (filter.branch_id) {
+        query += " AND e.branch_id = ?";
+        params.push(filter.branch_id);
+    }
+    if (filter.created_by) {
+        query += " AND e.created_by = ?";
+        params.push(filter.created_by);
+    }
+    return { query, params };
+};
+
+// The call-back queue for a day as counts per staff member, in the caller's branch; the inquiries
+// themselves are paged by list_due_follow_ups
+export const followUpDigest = async (asOf: string) => {
+    const { branchId } = await resolveIdentity();
+    const { query, params } = dueFollowUpsQuery(asOf, { branch_id: branchId ?? undefined });
+    const [rows] = await pool.execute(
+        `SELECT staff_id, staff_name, COUNT(*) AS total, SUM(days_overdue > 0) AS overdue, MIN(next_date) AS oldest_next_date
+         FROM (${query}) AS due
+         GROUP BY staff_id, staff_name
+         ORDER BY staff_name, staff_id`,
+        params
+    );
+
+    const staff = (rows as any[]).map(({ total, overdue, ...row }) => ({
+        ...row,
+        due_today: Number(total) - Number(overdue),
+        overdue: Number(overdue),
+    }));
+    const overdue = staff.reduce((sum, row) => sum + row.overdue, 0);
+    const dueToday = staff.reduce((sum, row) => sum + row.due_today, 0);
+    return { as_of: asOf, total: overdue + dueToday, due_today: dueToday, overdue, staff };
+};
@@ -0,0 +1,79 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types";
+import { z } from "zod";
+import { Page } from "./pagination";
+import { ToolResult } from "./tools/registry";
+
+// Arguments every list and report tool accepts
+export const formatArgs = {
+    format: z.enum(["json", "csv", "markdown"]).optional().describe("Output format (default json); csv and markdown render a table ready to paste into a spreadsheet or chat"),
+    fields: z.array(z.string()).optional().describe("Columns to include, in this order (default: all)"),
+};
+
+export interface FormatRequest {
+    format?: "json" | "csv" | "markdown";
+    fields?: string[];
+}
+
+type Row = Record<string, any>;
+
+// Requested columns, or every column in first-seen order
+const columnsOf = (rows: Row[], fields?: string[]): string[] => {
+    const available = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+    if (!fields || fields.length === 0) return available;
+
+    const unknown = rows.length > 0 ? fields.filter((field) => !available.includes(field)) : [];
+    if (unknown.length > 0) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown field(s): ${unknown.join(", ")}. Available: ${available.join(", ")}`);
+    }
+    return fields;
+};
+
+const cellText = (value: unknown): string => {
+    if (value === null || value === undefined) return "";
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+};
+
+const csvCell = (value: unknown) => {
+    const text = cellText(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const markdownCell = (value: unknown) => cellText(value).replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+
+const renderTable = (rows: Row[], columns: string[], format: "csv" | "markdown"): string => {
+    if (format === "csv") {
+        return [columns, ...rows.map((row) => columns.map((column) => row[column]))]
+            .map((cells) => cells.map(csvCell).join(","))
+            .join("\n");
+    }
+
+    if (columns.length === 0) return "_No rows_";
+    return [
+        `| ${columns.map(markdownCell).join(" | ")} |`,
+        `| ${columns.map(() => "---").join(" | ")} |`,
+        ...rows.map((row) => `| ${columns.map((column) => markdownCell(row[column])).join(" | ")} |`),
+    ].join("\n");
+};
+
+const pick = (rows: Row[], columns: string[]) =>
+    rows.map((row) => Object.fromEntries(columns.map((column) => [column, row[column]])));
+
+export const renderRows = (rows: Row[], request: FormatRequest): ToolResult["content"] => {
+    const columns = columnsOf(rows, request.fields);
+    const text = !request.format || request.format === "json"
+        ? JSON.stringify(request.fields ? pick(rows, columns) : rows, null, 2)
+        : renderTable(rows, columns, request.format);
+    return [{ type: "text", text }];
+};
+
+// Tables carry only the rows; the paging details follow as a second item so the table pastes cleanly
+export const renderPage = (page: Page<Row>, request: FormatRequest): ToolResult["content"] => {
+    if (!request.format || request.format === "json") {
+        const items = request.fields ? pick(page.items, columnsOf(page.items, request.fields)) : page.items;
+        return [{ type: "text", text: JSON.stringify({ ...page, items }, null, 2) }];
+    }
+
+    const summary = `Showing ${page.items.length} of ${page.total}.` +
+        (page.next_cursor ? ` Next page: cursor "${page.next_cursor}"` : "");
+    return [...renderRows(page.items, request), { type: "text", text: summary }];
+};
@@ -0,0 +1,58 @@
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport";
+import { JSONRPCMessage } from "@modelcontextprotocol/sdk/types";
+
+type MessageId = string | number;
+
+const isRequest = (message: JSONRPCMessage): message is JSONRPCMessage & { id: MessageId; method: string } =>
+    "id" in message && "method" in message;
+
+const isResponse = (message: JSONRPCMessage): message is JSONRPCMessage & { id: MessageId } =>
+    "id" in message && ("result" in message || "error" in message);
+
+// Transport for the stateless streamable-HTTP endpoint: one POST body in, one JSON body out.
+// Nothing is kept between requests, so any serverless instance can answer any call.
+export class RequestResponseTransport implements Transport {
+    onclose?: () => void;
+    onerror?: (error: Error) => void;
+    onmessage?: (message: JSONRPCMessage) => void;
+
+    private pending = new Set<MessageId>();
+    private responses: JSONRPCMessage[] = [];
+    private resolveDone?: () => void;
+
+    async start(): Promise<void> { }
+
+    async close(): Promise<void> {
+        this.resolveDone?.();
+        this.onclose?.();
+    }
+
+    async send(message: JSONRPCMessage): Promise<void> {
+        // Server-initiated requests and notifications have nowhere to go without a stream; drop them.
+        if (!isResponse(message)) return;
+
+        this.responses.push(message);
+        this.pending.delete(message.id);
+        if (this.pending.size === 0) {
+            this.resolveDone?.();
+        }
+    }
+
+    // Delivers the messages to the connected server and resolves with the responses to every request among them.
+    async handle(messages: JSONRPCMessage[]): Promise<JSONRPCMessage[]> {
+        for (const message of messages) {
+            if (isRequest(message)) this.pending.add(message.id);
+        }
+
+        const done = this.pending.size === 0
+            ? Promise.resolve()
+            : new Promise<void>((resolve) => { this.resolveDone = resolve; });
+
+        for (const message of messages) {
+            this.onmessage?.(message);
+        }
+
+        await done;
+        return this.responses;
+    }
+}
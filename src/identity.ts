@@ -0,0 +1,17 @@
+import { Identity, pool, storage } from "./db";
+
+// Identities are cached per API key. IDENTITY_CACHE_TTL_MS bounds how long a revoked or
+// re-assigned key keeps acting with its previous branch and role.
+const CACHE_TTL_MS = parseInt(process.env.IDENTITY_CACHE_TTL_MS || "300000", 10);
+
+const cache = new Map<string, { identity: Identity; expiresAt: number }>();
+
+export const resolveIdentity = async (): Promise<Identity> => {
+    const key = storage.getStore() || "";
+    const cached = cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) return cached.identity;
+
+    const identity = await pool.whoami();
+    cache.set(key, { identity, expiresAt: Date.now() + CACHE_TTL_MS });
+    return identity;
+};
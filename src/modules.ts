@@ -0,0 +1,60 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types";
+import { pool } from "./db";
+import { resolveIdentity } from "./identity";
+
+const CACHE_TTL_MS = parseInt(process.env.MODULES_CACHE_TTL_MS || "300000", 10);
+
+// Comma-separated module prefixes that override modules_manage for every branch, e.g. "inventory,hostel"
+const parseList = (value?: string) => new Set((value || "").split(",").map((item) => item.trim()).filter(Boolean));
+const ALLOWED = parseList(process.env.MCP_MODULES_ALLOW);
+const DENIED = parseList(process.env.MCP_MODULES_DENY);
+
+const cache = new Map<number, { states: Map<string, boolean>; expiresAt: number }>();
+
+// Enabled flag per module prefix for a branch. RAMOM treats a module without a modules_manage row as enabled.
+const loadModuleStates = async (branchId: number): Promise<Map<string, boolean>> => {
+    const cached = cache.get(branchId);
+    if (cached && cached.expiresAt > Date.now()) return cached.states;
+
+    const [rows] = await pool.execute(
+        `SELECT m.prefix, mm.isEnabled
+         FROM modules_manage mm
+         JOIN modules m ON mm.modules_id = m.id
+         WHERE mm.branch_id = ?`,
+        [branchId]
+    );
+
+    const states = new Map<string, boolean>();
+    for (const row of rows as any[]) {
+        states.set(row.prefix, Number(row.isEnabled) === 1);
+    }
+
+    cache.set(branchId, { states, expiresAt: Date.now() + CACHE_TTL_MS });
+    return states;
+};
+
+const isEnabled = (module: string | undefined, states: Map<string, boolean>): boolean => {
+    if (!module) return true;
+    if (DENIED.has(module)) return false;
+    if (ALLOWED.has(module)) return true;
+    return states.get(module) !== false;
+};
+
+// Superadmin keys span every branch, so only the env lists apply to them
+const moduleStatesForCaller = async (): Promise<Map<string, boolean>> => {
+    const { branchId } = await resolveIdentity();
+    return branchId === null ? new Map() : loadModuleStates(branchId);
+};
+
+// Tools whose module the caller's branch has enabled, for tools/list
+export const filterEnabledTools = async <T extends { module?: string }>(tools: T[]): Promise<T[]> => {
+    const states = await moduleStatesForCaller();
+    return tools.filter((tool) => isEnabled(tool.module, states));
+};
+
+export const assertModuleEnabled = async (tool: string, module?: string): Promise<void> => {
+    if (!module) return;
+    if (!isEnabled(module, await moduleStatesForCaller())) {
+        throw new McpError(ErrorCode.InvalidRequest, `${tool} belongs to the ${module} module, which is disabled for this branch`);
+    }
+};
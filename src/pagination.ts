@@ -0,0 +1,121 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types";
+import { z } from "zod";
+import { pool } from "./db";
+
+const DEFAULT_PAGE_SIZE = 50;
+// Upper bound on any page so one call can't pull a whole table through the proxy
+export const MAX_PAGE_SIZE = parseInt(process.env.MAX_PAGE_SIZE || "200", 10);
+
+// Arguments every list tool accepts
+export const pageArgs = {
+    limit: z.number().int().positive().optional().describe(`Page size (default ${DEFAULT_PAGE_SIZE}, at most ${MAX_PAGE_SIZE})`),
+    cursor: z.string().optional().describe("next_cursor from the previous page; omit for the first page"),
+};
+
+export interface PageRequest {
+    limit?: number;
+    cursor?: string;
+}
+
+export interface Page<T = any> {
+    items: T[];
+    total: number;
+    next_cursor: string | null;
+}
+
+// Columns of the listed rows that fix their order; the last one must be unique (usually id)
+export type SortKey = [column: string, direction: "ASC" | "DESC"];
+
+const pageSize = (limit?: number) => Math.min(limit || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+
+const encodeCursor = (row: any, order: SortKey[]) =>
+    Buffer.from(JSON.stringify(order.map(([column]) => row[column]))).toString("base64url");
+
+const decodeCursor = (cursor: string, order: SortKey[]): unknown[] => {
+    try {
+        const values = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+        if (Array.isArray(values) && values.length === order.length) return values;
+    } catch {
+        // Reported below
+    }
+    throw new McpError(ErrorCode.InvalidParams, "Invalid cursor: pass next_cursor from a previous page of the same tool");
+};
+
+// NULLs sort first ascending and last descending, as MySQL orders them
+const orderByClause = (order: SortKey[]) =>
+    order.map(([column, direction]) => `\`${column}\` IS NULL ${direction === "ASC" ? "DESC" : "ASC"}, \`${column}\` ${direction}`).join(", ");
+
+const equalTo = (column: string, value: unknown) =>
+    value === null ? { sql: `\`${column}\` IS NULL`, params: [] } : { sql: `\`${column}\` = ?`, params: [value] };
+
+// Values after `value` in the column's order: past a NULL come only the non-NULL values (ascending) or
+// nothing (descending); past a value come the values beyond it, and NULLs when descending
+const after = (column: string, direction: SortKey[1], value: unknown) => {
+    if (value === null) {
+        return { sql: direction === "ASC" ? `\`${column}\` IS NOT NULL` : "1 = 0", params: [] };
+    }
+    return direction === "ASC"
+        ? { sql: `\`${column}\` > ?`, params: [value] }
+        : { sql: `(\`${column}\` < ? OR \`${column}\` IS NULL)`, params: [value] };
+};
+
+// Rows strictly after the cursor in the given order: (a > ?) OR (a = ? AND b > ?) OR ...
+const keysetCondition = (order: SortKey[], values: unknown[]) => {
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+    order.forEach(([column, direction], i) => {
+        const parts = [...order.slice(0, i).map(([previous], j) => equalTo(previous, values[j])), after(column, direction, values[i])];
+        clauses.push(`(${parts.map((part) => part.sql).join(" AND ")})`);
+        params.push(...parts.flatMap((part) => part.params));
+    });
+    return { sql: clauses.join(" OR "), params };
+};
+
+const toPage = (rows: any[], total: number, size: number, order: SortKey[]): Page => {
+    const items = rows.slice(0, size);
+    return {
+        items,
+        total,
+        next_cursor: rows.length > size ? encodeCursor(items[items.length - 1], order) : null,
+    };
+};
+
+// Pages through the rows of a SELECT (without ORDER BY or LIMIT) using a keyset cursor. The query
+// runs as a derived table, so `order` names its output columns (aliases), not the underlying tables.
+export const paginate = async (query: string, params: unknown[], order: SortKey[], page: PageRequest): Promise<Page> => {
+    const size = pageSize(page.limit);
+    const from = page.cursor ? keysetCondition(order, decodeCursor(page.cursor, order)) : undefined;
+
+    const [[rows], [counted]] = await Promise.all([
+        pool.execute(
+            `SELECT * FROM (${query}) AS page_rows${from ? ` WHERE ${from.sql}` : ""} ORDER BY ${orderByClause(order)} LIMIT ?`,
+            [...params, ...(from ? from.params : []), size + 1]
+        ),
+        pool.execute(`SELECT COUNT(*) AS total FROM (${query}) AS counted`, params),
+    ]);
+
+    return toPage(rows as any[], Number((counted as any[])[0]?.total) || 0, size, order);
+};
+
+// Same envelope for lists that are already in memory
+export const paginateRows = <T extends Record<string, any>>(rows: T[], order: SortKey[], page: PageRequest): Page<T> => {
+    const size = pageSize(page.limit);
+    const compare = (a: Record<string, any>, b: Record<string, any>) => {
+        for (const [column, direction] of order) {
+            const [x, y] = [a[column] ?? null, b[column] ?? null];
+            if (x === y) continue;
+            // NULLs first ascending, as in paginate()
+            const ascending = x === null ? -1 : y === null ? 1 : x < y ? -1 : 1;
+            return ascending * (direction === "ASC" ? 1 : -1);
+        }
+        return 0;
+    };
+
+    let sorted = [...rows].sort(compare);
+    if (page.cursor) {
+        const values = decodeCursor(page.cursor, order);
+        const cursorRow = Object.fromEntries(order.map(([column], i) => [column, values[i]]));
+        sorted = sorted.filter((row) => compare(row, cursorRow) > 0);
+    }
+    return toPage(sorted.slice(0, size + 1), rows.length, size, order);
+};
@@ -0,0 +1,242 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types";
+import { pool } from "./db";
+import { resolveIdentity } from "./identity";
+
+export type Action = "view" | "add" | "edit" | "delete";
+
+// RAMOM's superadmin role has no staff_privileges rows; it may do everything
+const SUPERADMIN_ROLE_ID = 1;
+
+const CACHE_TTL_MS = parseInt(process.env.IDENTITY_CACHE_TTL_MS || "300000", 10);
+
+// Each tool maps to the RAMOM permission (permission.prefix) and the staff_privileges flag it needs.
+// null means any authenticated role may call it. Unlisted tools are superadmin-only.
+const TOOL_PERMISSIONS: Record<string, [string, Action] | null> = {
+    // Admission inquiries
+    create_inquiry: ["admission_enquiry", "add"],
+    read_inquiry: ["admission_enquiry", "view"],
+    update_inquiry: ["admission_enquiry", "edit"],
+    delete_inquiry: ["admission_enquiry", "delete"],
+    bulk_delete_inquiries: ["admission_enquiry", "delete"],
+    list_inquiries: ["admission_enquiry", "view"],
+    list_inquiry_sources: ["admission_enquiry", "view"],
+    list_inquiry_statuses: ["admission_enquiry", "view"],
+    create_inquiry_follow_up: ["admission_enquiry", "add"],
+    list_inquiry_follow_ups: ["admission_enquiry", "view"],
+    list_due_follow_ups: ["admission_enquiry", "view"],
+    inquiry_funnel_report: ["admission_enquiry", "view"],
+    // Admitting creates the student, so it needs the student module's add right
+    convert_inquiry_to_admission: ["student", "add"],
+
+    // Reception
+    list_reception_configs: ["config_reception", "view"],
+    create_reception_config: ["config_reception", "add"],
+    delete_reception_config: ["config_reception", "delete"],
+    create_call_log: ["call_log", "add"],
+    list_call_logs: ["call_log", "view"],
+    read_call_log: ["call_log", "view"],
+    update_call_log: ["call_log", "edit"],
+    delete_call_log: ["call_log", "delete"],
+    bulk_delete_call_logs: ["call_log", "delete"],
+    create_visitor_log: ["visitor_log", "add"],
+    list_visitor_logs: ["visitor_log", "view"],
+    read_visitor_log: ["visitor_log", "view"],
+    update_visitor_log: ["visitor_log", "edit"],
+    delete_visitor_log: ["visitor_log", "delete"],
+    bulk_delete_visitor_logs: ["visitor_log", "delete"],
+    create_complaint: ["complaint", "add"],
+    list_complaints: ["complaint", "view"],
+    read_complaint: ["complaint", "view"],
+    update_complaint: ["complaint", "edit"],
+    delete_complaint: ["complaint", "delete"],
+    bulk_delete_complaints: ["complaint", "delete"],
+    create_postal_record: ["postal_record", "add"],
+    list_postal_records: ["postal_record", "view"],
+    read_postal_record: ["postal_record", "view"],
+    update_postal_record: ["postal_record", "edit"],
+    delete_postal_record: ["postal_record", "delete"],
+    bulk_delete_postal_records: ["postal_record", "delete"],
+
+    // Accounting
+    list_voucher_heads: ["voucher_head", "view"],
+    create_voucher_head: ["voucher_head", "add"],
+    add_income: ["deposit", "add"],
+    add_expense: ["expense", "add"],
+    list_transactions: ["all_transactions", "view"],
+    list_accounts: ["account", "view"],
+
+    // Inventory
+    list_product_categories: ["product_category", "view"],
+    create_product_category: ["product_category", "add"],
+    list_product_units: ["product_unit", "view"],
+    create_product_unit: ["product_unit", "add"],
+    list_product_stores: ["product_store", "view"],
+    create_product_store: ["product_store", "add"],
+    list_product_suppliers: ["product_supplier", "view"],
+    create_product_supplier: ["product_supplier", "add"],
+    list_products: ["product", "view"],
+    create_product: ["product", "add"],
+    update_product_stock: ["product", "edit"],
+    create_purchase: ["product_purchase", "add"],
+    list_purchases: ["product_purchase", "view"],
+    get_purchase_details: ["product_purchase", "view"],
+    create_product_issue: ["product_issue", "add"],
+    list_product_issues: ["product_issue", "view"],
+
+    // Fees
+    create_fee_type: ["fees_type", "add"],
+    list_fee_types: ["fees_type", "view"],
+    update_fee_type: ["fees_type", "edit"],
+    delete_fee_type: ["fees_type", "delete"],
+    create_fee_group: ["fees_group", "add"],
+    list_fee_groups: ["fees_group", "view"],
+    add_fee_group_details: ["fees_group", "edit"],
+    allocate_fees: ["fees_allocation", "add"],
+    update_fee_allocation: ["fees_allocation", "edit"],
+    collect_fees: ["collect_fees", "add"],
+    bulk_collect_fees: ["collect_fees", "add"],
+    get_student_fee_status: ["collect_fees", "view"],
+    get_fee_payment_history: ["collect_fees", "view"],
+    list_pending_fees: ["collect_fees", "view"],
+    list_payment_methods: ["collect_fees", "view"],
+    update_fee_payment: ["collect_fees", "edit"],
+    // Setting a student to Unpaid deletes their payment history
+    set_fee_status: ["collect_fees", "delete"],
+
+    // Examinations
+    create_exam: ["exam", "add"],
+    list_exams: ["exam", "view"],
+    delete_exam: ["exam", "delete"],
+    create_exam_term: ["exam_term", "add"],
+    list_exam_terms: ["exam_term", "view"],
+    create_exam_hall: ["exam_hall", "add"],
+    list_exam_halls: ["exam_hall", "view"],
+    create_grade: ["exam_grade", "add"],
+    list_grades: ["exam_grade", "view"],
+    record_marks: ["exam_mark", "add"],
+    get_student_marks: ["exam_mark", "view"],
+    list_class_marks: ["exam_mark", "view"],
+    list_at_risk_students: ["exam_mark", "view"],
+    list_top_students: ["exam_mark", "view"],
+    get_exam_timetable: ["exam_timetable", "view"],
+    create_exam_timetable: ["exam_timetable", "add"],
+    list_exam_timetable: ["exam_timetable", "view"],
+
+    // Timetable
+    create_class_timetable: ["class_timetable", "add"],
+    list_class_timetable: ["class_timetable", "view"],
+    delete_class_timetable: ["class_timetable", "delete"],
+    get_teacher_schedule: ["teacher_timetable", "view"],
+
+    // Students and parents
+    list_sessions: null,
+    list_students: ["student", "view"],
+    get_student: ["student", "view"],
+    search_students: ["student", "view"],
+    create_student: ["student", "add"],
+    update_student: ["student", "edit"],
+    get_attendance_report: ["student_attendance", "view"],
+    list_parents: ["parent", "view"],
+    get_parent: ["parent", "view"],
+    get_parent_children: ["parent", "view"],
+    create_parent: ["parent", "add"],
+    update_parent: ["parent", "edit"],
+    list_online_admissions: ["online_admission", "view"],
+    get_online_admission: ["online_admission", "view"],
+    approve_online_admission: ["online_admission", "add"],
+    reject_online_admission: ["online_admission", "edit"],
+    // Duplicates span inquiries, students and parents; merging deletes the duplicate records
+    find_duplicates: ["student", "view"],
+    merge_records: ["student", "delete"],
+
+    // HR
+    list_staff: ["employee", "view"],
+    get_staff: ["employee", "view"],
+    create_staff: ["employee", "add"],
+    update_staff: ["employee", "edit"],
+    mark_staff_attendance: ["employee_attendance", "add"],
+    get_staff_attendance: ["employee_attendance", "view"],
+    list_staff_attendance_report: ["employee_attendance", "view"],
+    create_staff_leave: ["leave_request", "add"],
+    list_staff_leaves: ["leave_manage", "view"],
+    approve_staff_leave: ["leave_manage", "edit"],
+    get_staff_leave_balance: ["leave_request", "view"],
+    create_student_leave: ["leave_request", "add"],
+    list_student_leaves: ["leave_manage", "view"],
+    approve_student_leave: ["leave_manage", "edit"],
+    list_leave_categories: ["leave_category", "view"],
+    create_leave_category: ["leave_category", "add"],
+    list_salary_templates: ["salary_template", "view"],
+    assign_staff_salary: ["salary_assign", "edit"],
+
+    // Audit
+    list_audit_log: ["all_transactions", "view"],
+};
+
+// The kind of access a tool needs; anything but "view" changes data
+export const toolAction = (tool: string): Action | undefined => TOOL_PERMISSIONS[tool]?.[1];
+
+export const isMutatingTool = (tool: string): boolean => {
+    const action = toolAction(tool);
+    return action !== undefined && action !== "view";
+};
+
+const cache = new Map<number, { granted: Set<string>; expiresAt: number }>();
+
+// Set of "prefix:action" entries the role has been granted in staff_privileges
+const loadPrivileges = async (roleId: number): Promise<Set<string>> => {
+    const cached = cache.get(roleId);
+    if (cached && cached.expiresAt > Date.now()) return cached.granted;
+
+    const [rows] = await pool.execute(
+        `SELECT p.prefix, sp.is_view, sp.is_add, sp.is_edit, sp.is_delete
+         FROM staff_privileges sp
+         JOIN permission p ON sp.permission_id = p.id
+         WHERE sp.role_id = ?`,
+        [roleId]
+    );
+
+    const granted = new Set<string>();
+    for (const row of rows as any[]) {
+        if (Number(row.is_view)) granted.add(`${row.prefix}:view`);
+        if (Number(row.is_add)) granted.add(`${row.prefix}:add`);
+        if (Number(row.is_edit)) granted.add(`${row.prefix}:edit`);
+        if (Number(row.is_delete)) granted.add(`${row.prefix}:delete`);
+    }
+
+    cache.set(roleId, { granted, expiresAt: Date.now() + CACHE_TTL_MS });
+    return granted;
+};
+
+const isPermitted = (tool: string, roleId: number, granted: Set<string>): boolean => {
+    if (roleId === SUPERADMIN_ROLE_ID) return true;
+    if (!(tool in TOOL_PERMISSIONS)) return false;
+
+    const required = TOOL_PERMISSIONS[tool];
+    return required === null || granted.has(`${required[0]}:${required[1]}`);
+};
+
+// Tools the caller's role may use, for tools/list
+export const filterPermittedTools = async <T extends { name: string }>(tools: T[]): Promise<T[]> => {
+    const { roleId } = await resolveIdentity();
+    const granted = roleId === SUPERADMIN_ROLE_ID ? new Set<string>() : await loadPrivileges(roleId);
+    return tools.filter((tool) => isPermitted(tool.name, roleId, granted));
+};
+
+export const authorizeTool = async (tool: string): Promise<void> => {
+    const { roleId } = await resolveIdentity();
+    const granted = roleId === SUPERADMIN_ROLE_ID ? new Set<string>() : await loadPrivileges(roleId);
+    if (!isPermitted(tool, roleId, granted)) {
+        throw new McpError(ErrorCode.InvalidRequest, `Role ${roleId} is not permitted to call ${tool}`);
+    }
+};
+
+// Roles a caller may give a login. RAMOM numbers its built-in roles from most to least privileged,
+// so only superadmin may assign superadmin or any role ranked above its own.
+export const assertAssignableRole = async (roleId: number): Promise<void> => {
+    const identity = await resolveIdentity();
+    if (identity.roleId === SUPERADMIN_ROLE_ID) return;
+    if (roleId === SUPERADMIN_ROLE_ID || roleId < identity.roleId) {
+        throw new McpError(ErrorCode.InvalidRequest, `Role ${identity.roleId} may not assign role ${roleId}`);
+    }
+};
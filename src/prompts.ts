@@ -0,0 +1,113 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types";
+import { today } from "./dates";
+
+interface PromptArgument {
+    name: string;
+    description: string;
+    required?: boolean;
+}
+
+// The instructions a prompt expands to, plus resources to attach so the model starts with the record in hand
+export interface PromptContent {
+    text: string;
+    resources: string[];
+}
+
+interface PromptDefinition {
+    name: string;
+    description: string;
+    arguments: PromptArgument[];
+    build(args: Record<string, string>): PromptContent;
+}
+
+export const prompts: PromptDefinition[] = [
+    {
+        name: "parent_teacher_meeting_brief",
+        description: "Prepare a parent–teacher meeting brief for a student",
+        arguments: [
+            { name: "student_id", description: "Student ID", required: true },
+            { name: "exam_id", description: "Exam to discuss results for (optional)" },
+        ],
+        build: ({ student_id, exam_id }) => ({
+            text: [
+                `Prepare a one-page brief for a parent–teacher meeting about student ${student_id}.`,
+                "The student's record and fee status are attached" + (exam_id ? `, together with their marks in exam ${exam_id}.` : "."),
+                "Use get_parent_children to confirm the parents' names and siblings at the school, and get_attendance_report for the student's class to comment on attendance.",
+                "Structure the brief as: student overview, academic performance (strengths and subjects needing support), attendance, fees outstanding, and three talking points for the teacher.",
+                "Keep the tone constructive; it may be shared with the parents.",
+            ].join("\n"),
+            resources: [
+                `students://${student_id}`,
+                `students://${student_id}/fees`,
+                ...(exam_id ? [`students://${student_id}/marks/${exam_id}`] : []),
+            ],
+        }),
+    },
+    {
+        name: "fee_reminder",
+        description: "Draft fee reminder messages for parents of a class with unpaid balances",
+        arguments: [
+            { name: "class_id", description: "Class ID", required: true },
+            { name: "due_date", description: "Date by which fees should be paid (YYYY-MM-DD, optional)" },
+        ],
+        build: ({ class_id, due_date }) => ({
+            text: [
+                `Draft fee reminders for class ${class_id}.`,
+                `Call list_pending_fees with class_id ${class_id} and format "markdown" to find students with an unpaid balance; follow next_cursor until every page is read.`,
+                "Write one short, polite message per student suitable for WhatsApp, addressed to the parent, naming the student, the outstanding amount and " +
+                    (due_date ? `the due date ${due_date}.` : "asking for payment at the earliest."),
+                "Finish with a table of student, register number and balance for the office copy.",
+            ].join("\n"),
+            resources: [],
+        }),
+    },
+    {
+        name: "front_office_summary",
+        description: "Summarize a day's front-office activity: inquiries, calls, visitors, complaints and post",
+        arguments: [{ name: "date", description: "Day to summarize (YYYY-MM-DD, defaults to today)" }],
+        build: ({ date }) => {
+            const day = date || today();
+            return {
+                text: [
+                    `Summarize front-office activity for ${day}.`,
+                    `Gather the day's records with list_inquiries (start_date and end_date ${day}), list_call_logs, list_visitor_logs, list_complaints and list_postal_records (date_from and date_to ${day}).`,
+                    "Report counts for each, then highlight new admission inquiries by class, unresolved complaints, and any calls or visits that need a follow-up.",
+                    `The attached follow-up digest counts call-backs due per staff member; list them with list_due_follow_ups (as_of ${day}) and name the overdue ones for each staff member.`,
+                    "Close with a short to-do list for tomorrow's front desk.",
+                ].join("\n"),
+                resources: [`inquiries://follow-ups/due/${day}`],
+            };
+        },
+    },
+    {
+        name: "exam_seating_plan",
+        description: "Plan exam hall seating for an exam",
+        arguments: [
+            { name: "exam_id", description: "Exam ID", required: true },
+            { name: "class_id", description: "Limit the plan to one class (optional)" },
+        ],
+        build: ({ exam_id, class_id }) => ({
+            text: [
+                `Plan the seating for exam ${exam_id}` + (class_id ? ` for class ${class_id}.` : "."),
+                "Use list_exam_halls for hall capacities, list_exam_timetable for each class and section sitting the exam, and list_students for the students in them.",
+                "Seat students so that neighbours are from different classes or sections where possible, and no hall exceeds its seat count.",
+                "Present one table per hall and session: seat number, student name, register number, class and section.",
+            ].join("\n"),
+            resources: [],
+        }),
+    },
+];
+
+export const buildPrompt = (name: string, args: Record<string, string> = {}): { description: string; content: PromptContent } => {
+    const prompt = prompts.find((candidate) => candidate.name === name);
+    if (!prompt) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    const missing = prompt.arguments.filter((argument) => argument.required && !args[argument.name]);
+    if (missing.length > 0) {
+        throw new McpError(ErrorCode.InvalidParams, `Missing argument(s) for ${name}: ${missing.map((argument) => argument.name).join(", ")}`);
+    }
+
+    return { description: prompt.description, content: prompt.build(args) };
+};
@@ -0,0 +1,193 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types";
+import { pool } from "./db";
+
+const parseList = (value?: string) => (value || "").split(",").map((item) => item.trim().toLowerCase()).filter(Boolean);
+
+// RAMOM tables the MCP tools already read. READONLY_QUERY_TABLES replaces the list.
+const DEFAULT_TABLES = [
+    "accounts", "call_log", "class", "complaint", "enquiry", "enquiry_follow_up", "enquiry_reference", "enquiry_response",
+    "enroll", "exam", "exam_hall", "exam_term", "fee_allocation", "fee_groups", "fee_groups_details", "fee_payment_history",
+    "fees_type", "global_settings", "grade", "leave_category", "login_credential", "mark", "modules", "modules_manage",
+    "parent", "payment_types", "permission", "postal_record", "product", "product_category", "product_issues",
+    "product_issues_details", "product_store", "product_supplier", "product_unit", "purchase_bill", "purchase_bill_details",
+    "roles", "salary_template", "schoolyear", "section", "staff", "staff_attendance", "staff_leave", "staff_privileges",
+    "student", "student_attendance", "student_leave", "subject", "timetable_class", "timetable_exam", "transactions",
+    "visitor_log", "voucher_head",
+];
+const ALLOWED_TABLES = new Set(process.env.READONLY_QUERY_TABLES ? parseList(process.env.READONLY_QUERY_TABLES) : DEFAULT_TABLES);
+
+// "table.column" entries that are never returned; READONLY_QUERY_REDACT adds to them. They are matched
+// by column name alone, so an alias or a missed table reference can't expose them.
+const REDACTED_COLUMNS = ["login_credential.password", ...parseList(process.env.READONLY_QUERY_REDACT)];
+const REDACTED_NAMES = new Set(REDACTED_COLUMNS.map((entry) => entry.split(".").pop()!));
+const REDACTED_TABLES = new Set(REDACTED_COLUMNS.filter((entry) => entry.includes(".")).map((entry) => entry.split(".")[0]));
+
+export const MAX_QUERY_ROWS = parseInt(process.env.READONLY_QUERY_MAX_ROWS || "500", 10);
+const QUERY_TIMEOUT_MS = parseInt(process.env.READONLY_QUERY_TIMEOUT_MS || "5000", 10);
+
+// Words that turn a SELECT into something other than a plain read
+const FORBIDDEN = new Set(["into", "outfile", "dumpfile", "for", "lock", "sleep", "benchmark", "load_file", "get_lock"]);
+
+// Tokens after which "*" selects every column rather than multiplying
+const WILDCARD_FOLLOWS = new Set(["select", ",", "distinct", "all", "."]);
+
+// Words that can follow a table reference, so are never its alias
+const CLAUSE_WORDS = new Set([
+    "where", "join", "left", "right", "inner", "outer", "cross", "natural", "straight_join", "on", "using",
+    "group", "order", "having", "limit", "union", "window",
+]);
+
+const TOKEN = /\s+|'(?:[^'\\]|\\.|'')*'|"(?:[^"\\]|\\.|"")*"|`(?:[^`]|``)*`|--|#|\/\*|\w+|./gs;
+
+type Token = { kind: "word" | "string" | "symbol"; text: string };
+
+const reject = (reason: string): never => {
+    throw new McpError(ErrorCode.InvalidParams, `Query rejected: ${reason}`);
+};
+
+const tokenize = (sql: string): Token[] => {
+    const tokens: Token[] = [];
+    for (const [text] of sql.matchAll(TOKEN)) {
+        if (/^\s+$/.test(text)) continue;
+        if (text === "--" || text === "#" || text === "/*") reject("comments are not allowed");
+        if (text.startsWith("'") || text.startsWith('"')) tokens.push({ kind: "string", text });
+        else if (text.startsWith("`")) tokens.push({ kind: "word", text: text.slice(1, -1).replace(/``/g, "`").toLowerCase() });
+        else if (/^\w+$/.test(text)) tokens.push({ kind: "word", text: text.toLowerCase() });
+        else tokens.push({ kind: "symbol", text });
+    }
+    return tokens;
+};
+
+// Index of the ")" closing the "(" at `open`
+const closingParen = (tokens: Token[], open: number): number => {
+    let depth = 0;
+    for (let i = open; i < tokens.length; i++) {
+        if (tokens[i].text === "(") depth++;
+        else if (tokens[i].text === ")" && --depth === 0) return i;
+    }
+    return reject("unbalanced parentheses");
+};
+
+// Table names after FROM and JOIN (including comma-separated FROM lists). Derived tables are skipped
+// since their own FROM is checked where it appears; any other parenthesised reference is refused, as
+// "FROM (login_credential)" would otherwise hide the table.
+const referencedTables = (tokens: Token[]): string[] => {
+    const tables: string[] = [];
+    tokens.forEach((token, i) => {
+        if (token.kind !== "word" || (token.text !== "from" && token.text !== "join")) return;
+
+        let position = i + 1;
+        for (;;) {
+            if (tokens[position]?.text === "(") {
+                if (tokens[position + 1]?.text !== "select") reject("parenthesised table references must be subqueries");
+                position = closingParen(tokens, position) + 1;
+            } else if (tokens[position]?.kind === "word") {
+                if (tokens[position + 1]?.text === ".") reject("only tables of the school database may be queried");
+                tables.push(tokens[position].text);
+                position++;
+            } else {
+                break;
+            }
+
+            if (tokens[position]?.text === "as") position += 2;
+            else if (tokens[position]?.kind === "word" && !CLAUSE_WORDS.has(tokens[position].text)) position++;
+            // A column list after the alias renames the columns, e.g. "(SELECT * ...) AS t (a, b)"
+            if (tokens[position]?.text === "(") reject("derived table column lists are not allowed");
+
+            if (token.text !== "from" || tokens[position]?.text !== ",") break;
+            position++;
+        }
+    });
+    return tables;
+};
+
+// Refuses "*" or "t.*" over a table with redacted columns in any SELECT but the query's first.
+// Subqueries and later UNION branches can hand those columns on under other names, which
+// masking by column name would miss.
+const checkWildcards = (tokens: Token[]) => {
+    let level = 0;
+    const depths = tokens.map((token) => {
+        if (token.text === "(") return level++;
+        if (token.text === ")") level--;
+        return level;
+    });
+
+    tokens.forEach((token, start) => {
+        if (start === 0 || token.text !== "select") return;
+        const depth = depths[start];
+        let wildcard = false;
+        let inFrom = false;
+        for (let i = start + 1; i < tokens.length && depths[i] >= depth; i++) {
+            if (depths[i] > depth) continue;
+            if (tokens[i].text === "select" || tokens[i].text === "union") break;
+            if (tokens[i].text === "from") inFrom = true;
+            else if (!inFrom && tokens[i].text === "*" && WILDCARD_FOLLOWS.has(tokens[i - 1].text)) wildcard = true;
+            else if (wildcard && REDACTED_TABLES.has(tokens[i].text) && ["from", "join", ","].includes(tokens[i - 1].text)) {
+                reject(`"*" over ${tokens[i].text} is only allowed in the outermost SELECT`);
+            }
+        }
+    });
+};
+
+// Validates an ad-hoc query: one SELECT statement, no comments or side effects, only allowlisted tables,
+// no redacted columns named. Returns the tables it reads.
+export const checkReadonlyQuery = (sql: string): string[] => {
+    const tokens = tokenize(sql.trim());
+    if (tokens[tokens.length - 1]?.text === ";") tokens.pop();
+
+    if (tokens[0]?.text !== "select") reject("only a single SELECT statement is allowed");
+    if (tokens.some((token) => token.text === ";")) reject("only a single statement is allowed");
+
+    const forbidden = tokens.find((token) => token.kind === "word" && FORBIDDEN.has(token.text));
+    if (forbidden) reject(`"${forbidden.text.toUpperCase()}" is not allowed in a read-only query`);
+
+    const tables = [...new Set(referencedTables(tokens))];
+    const disallowed = tables.filter((table) => !ALLOWED_TABLES.has(table));
+    if (disallowed.length > 0) reject(`table(s) not available for ad-hoc queries: ${disallowed.join(", ")}`);
+
+    const redacted = tokens.find((token) => token.kind === "word" && REDACTED_NAMES.has(token.text));
+    if (redacted) reject(`column "${redacted.text}" cannot be queried`);
+    checkWildcards(tokens);
+    return tables;
+};
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> => {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, rejectTimeout) => {
+        timer = setTimeout(() => rejectTimeout(new Error(`Query timed out after ${ms}ms`)), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+// Runs a checked query capped at `limit` rows. Columns matching a redacted name (e.g. from SELECT *) are masked.
+export const runReadonlyQuery = async (sql: string, limit: number) => {
+    checkReadonlyQuery(sql);
+    const query = sql.trim().replace(/;$/, "");
+    const cap = Math.min(limit, MAX_QUERY_ROWS);
+
+    const [rows] = await withTimeout(
+        pool.execute(`SELECT /*+ MAX_EXECUTION_TIME(${QUERY_TIMEOUT_MS}) */ * FROM (${query}) AS readonly_query LIMIT ?`, [cap + 1]),
+        QUERY_TIMEOUT_MS
+    );
+
+    const items = (rows as any[]).slice(0, cap).map((row) =>
+        Object.fromEntries(Object.entries(row).map(([column, value]) => [column, REDACTED_NAMES.has(column.toLowerCase()) ? "[redacted]" : value]))
+    );
+    return { rows: items, truncated: (rows as any[]).length > cap };
+};
+
+export const isQueryableTable = (name: string) => ALLOWED_TABLES.has(name.toLowerCase());
+
+export const listTables = async (): Promise<string[]> => {
+    const [rows] = await pool.execute("SHOW TABLES");
+    return (rows as any[]).map((row) => String(Object.values(row)[0]));
+};
+
+// Column definitions of one table; the name is checked against SHOW TABLES before it reaches SQL
+export const describeTable = async (name: string) => {
+    if (!(await listTables()).includes(name)) {
+        throw new McpError(ErrorCode.InvalidRequest, `Unknown table: ${name}`);
+    }
+    const [rows] = await pool.execute(`DESCRIBE \`${name}\``);
+    return rows as any[];
+};
@@ -0,0 +1,96 @@
+// Lookup tables that rarely change but are read on almost every call. SELECTs that read only these
+// tables are cached for REFERENCE_CACHE_TTL_MS (0 disables the cache); any write to one of them
+// through this server drops every cached query that read it. Changes made in RAMOM itself show up
+// once the TTL runs out.
+const REFERENCE_TABLES = new Set([
+    "class", "section", "subject", "fees_type", "leave_category", "payment_types",
+    "call_purpose", "complaint_type", "enquiry_reference", "enquiry_response", "visitor_purpose",
+]);
+
+const TTL_MS = parseInt(process.env.REFERENCE_CACHE_TTL_MS || "300000", 10);
+const MAX_ENTRIES = parseInt(process.env.REFERENCE_CACHE_MAX_ENTRIES || "1000", 10);
+
+const READ_TABLE = /\b(?:FROM|JOIN)\s+`?(\w+)`?(?:\s+(?:AS\s+)?\w+)?\s*(,)?/gi;
+const WRITTEN_TABLE = /^\s*(?:INSERT\s+(?:IGNORE\s+)?INTO|REPLACE\s+INTO|UPDATE|DELETE\s+(?:\w+\s+)?FROM)\s+`?(\w+)`?/i;
+
+// Tables a SELECT reads from when all of them are reference tables, otherwise null.
+// Comma-separated FROM lists are not parsed, so they are never cached.
+export const cacheableTables = (sql: string): string[] | null => {
+    if (TTL_MS <= 0 || !/^\s*SELECT\b/i.test(sql)) return null;
+
+    const tables = new Set<string>();
+    for (const [, table, comma] of sql.matchAll(READ_TABLE)) {
+        if (comma || !REFERENCE_TABLES.has(table.toLowerCase())) return null;
+        tables.add(table.toLowerCase());
+    }
+    return tables.size > 0 ? [...tables] : null;
+};
+
+// The reference table a write statement changes, if any
+export const writtenReferenceTable = (sql: string): string | null => {
+    const table = sql.match(WRITTEN_TABLE)?.[1]?.toLowerCase();
+    return table && REFERENCE_TABLES.has(table) ? table : null;
+};
+
+interface Entry {
+    result: [any, any];
+    tables: string[];
+    expiresAt: number;
+}
+
+// Results are partitioned by API key, since each key belongs to one school branch. Queries that
+// depend on the academic session carry its id as a parameter, so each session gets its own entry.
+class ReferenceCache {
+    private entries = new Map<string, Entry>();
+    private hits = 0;
+    private misses = 0;
+    private invalidations = 0;
+
+    private key(partition: string, sql: string, params: any[]) {
+        return JSON.stringify([partition, sql, params]);
+    }
+
+    get(partition: string, sql: string, params: any[]): [any, any] | undefined {
+        const key = this.key(partition, sql, params);
+        const entry = this.entries.get(key);
+        if (entry && entry.expiresAt > Date.now()) {
+            this.hits++;
+            // Handlers may modify the rows they get back, so each hit gets its own copy
+            return [structuredClone(entry.result[0]), entry.result[1]];
+        }
+        if (entry) this.entries.delete(key);
+        this.misses++;
+        return undefined;
+    }
+
+    set(partition: string, sql: string, params: any[], tables: string[], result: [any, any]) {
+        if (this.entries.size >= MAX_ENTRIES) {
+            // Maps iterate in insertion order, so this drops the oldest entry
+            this.entries.delete(this.entries.keys().next().value as string);
+        }
+        // The caller keeps (and may modify) the rows it was handed, so the cache stores a copy of its own
+        this.entries.set(this.key(partition, sql, params), { result: [structuredClone(result[0]), result[1]], tables, expiresAt: Date.now() + TTL_MS });
+    }
+
+    invalidate(table: string) {
+        this.invalidations++;
+        for (const [key, entry] of this.entries) {
+            if (entry.tables.includes(table)) this.entries.delete(key);
+        }
+    }
+
+    stats() {
+        const lookups = this.hits + this.misses;
+        return {
+            enabled: TTL_MS > 0,
+            ttl_ms: TTL_MS,
+            entries: this.entries.size,
+            hits: this.hits,
+            misses: this.misses,
+            hit_rate: lookups > 0 ? Math.round((this.hits / lookups) * 1000) / 1000 : null,
+            invalidations: this.invalidations,
+        };
+    }
+}
+
+export const referenceCache = new ReferenceCache();
@@ -0,0 +1,113 @@
+import { followUpDigest } from "./follow-ups";
+import { describeTable } from "./readonly-query";
+
+// A resource template is a read-only view onto a tool: reading the URI runs the tool with arguments
+// taken from the URI, so resources get the same queries, branch scoping and permissions as tool calls.
+// Templates with `read` are served directly but still require permission to call `tool`.
+interface ResourceTemplateDefinition {
+    uriTemplate: string;
+    name: string;
+    description: string;
+    tool: string;
+    // A list tool, read page by page to the end since a resource read can't pass a cursor
+    paged?: boolean;
+    toArgs?(params: Record<string, string>): Record<string, unknown>;
+    read?(params: Record<string, string>): Promise<unknown>;
+}
+
+// YYYY-MM to the first and last day of that month
+const monthRange = (month: string) => {
+    const [year, monthIndex] = month.split("-").map(Number);
+    const lastDay = new Date(year, monthIndex, 0).getDate();
+    return { start_date: `${month}-01`, end_date: `${month}-${String(lastDay).padStart(2, "0")}` };
+};
+
+export const resourceTemplates: ResourceTemplateDefinition[] = [
+    {
+        uriTemplate: "students://{id}",
+        name: "Student",
+        description: "Full record of one student",
+        tool: "get_student",
+        toArgs: ({ id }) => ({ id: Number(id) }),
+    },
+    {
+        uriTemplate: "students://{id}/fees",
+        name: "Student Fees",
+        description: "Fee balance and payment status of one student in the active session",
+        tool: "get_student_fee_status",
+        toArgs: ({ id }) => ({ student_id: Number(id) }),
+    },
+    {
+        uriTemplate: "students://{id}/marks/{exam_id}",
+        name: "Student Marks",
+        description: "Marks of one student in one exam",
+        tool: "get_student_marks",
+        toArgs: ({ id, exam_id }) => ({ student_id: Number(id), exam_id: Number(exam_id) }),
+    },
+    {
+        uriTemplate: "staff://{id}/attendance/{month}",
+        name: "Staff Attendance",
+        description: "Attendance of one staff member for a month (YYYY-MM)",
+        tool: "get_staff_attendance",
+        toArgs: ({ id, month }) => ({ staff_id: Number(id), ...monthRange(month) }),
+    },
+    {
+        uriTemplate: "classes://{class_id}/sections/{section_id}/timetable",
+        name: "Class Timetable",
+        description: "Weekly timetable of a class section in the active session",
+        tool: "list_class_timetable",
+        paged: true,
+        toArgs: ({ class_id, section_id }) => ({ class_id: Number(class_id), section_id: Number(section_id) }),
+    },
+    {
+        uriTemplate: "exams://{id}/results",
+        name: "Exam Results",
+        description: "Marks of every student in an exam",
+        tool: "list_class_marks",
+        paged: true,
+        toArgs: ({ id }) => ({ exam_id: Number(id) }),
+    },
+    {
+        uriTemplate: "inquiries://follow-ups/due/{date}",
+        name: "Follow-up Digest",
+        description: "Call-back digest for a day (YYYY-MM-DD): how many inquiries each staff member has due that day or overdue",
+        tool: "list_due_follow_ups",
+        read: ({ date }) => followUpDigest(date),
+    },
+    {
+        uriTemplate: "schema://tables/{name}",
+        name: "Table Schema",
+        description: "Columns of one database table (DESCRIBE), for writing run_readonly_query queries",
+        tool: "run_readonly_query",
+        read: ({ name }) => describeTable(name),
+    },
+];
+
+// Digits unless listed here
+const VARIABLE_PATTERNS: Record<string, string> = {
+    month: "(\\d{4}-\\d{2})",
+    date: "(\\d{4}-\\d{2}-\\d{2})",
+    name: "(\\w+)",
+};
+
+const VARIABLE = /\{(\w+)\}/g;
+
+const compiled = resourceTemplates.map((template) => {
+    const names = [...template.uriTemplate.matchAll(VARIABLE)].map((match) => match[1]);
+    const pattern = template.uriTemplate
+        .split(VARIABLE)
+        .map((part, i) => (i % 2 === 1 ? VARIABLE_PATTERNS[part] || "(\\d+)" : part.replace(/[.*+?^$()|[\]\\/]/g, "\\$&")))
+        .join("");
+    return { template, names, regex: new RegExp(`^${pattern}$`) };
+});
+
+// The template a resource URI matches, with its variables
+export const matchResourceTemplate = (uri: string): { template: ResourceTemplateDefinition; params: Record<string, string> } | undefined => {
+    for (const { template, names, regex } of compiled) {
+        const match = regex.exec(uri);
+        if (match) {
+            return { template, params: Object.fromEntries(names.map((name, i) => [name, match[i + 1]])) };
+        }
+    }
+    return undefined;
+};
@@ -0,0 +1,38 @@
+import { pool, storage } from "./db";
+
+// RAMOM keeps the running academic year in global_settings.session_id; every year ever created is a
+// row in schoolyear. The lookup is cached per API key (each key maps to one school), and re-checked
+// after SESSION_CACHE_TTL_MS so a year rollover is picked up without restarting the server.
+const CACHE_TTL_MS = parseInt(process.env.SESSION_CACHE_TTL_MS || "3600000", 10);
+
+const cache = new Map<string, { sessionId: number; expiresAt: number }>();
+
+// Returns the caller's explicit session_id when given, otherwise the school's active session
+export const resolveSessionId = async (override?: number): Promise<number> => {
+    if (override) return override;
+
+    const key = storage.getStore() || "";
+    const cached = cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) return cached.sessionId;
+
+    const [settings] = await pool.execute("SELECT session_id FROM global_settings WHERE id = 1");
+    let sessionId = Number((settings as any[])[0]?.session_id) || 0;
+
+    if (!sessionId) {
+        // Installs that never set an active year: fall back to the newest one
+        const [years] = await pool.execute("SELECT id FROM schoolyear ORDER BY id DESC LIMIT 1");
+        sessionId = Number((years as any[])[0]?.id) || 0;
+    }
+    if (!sessionId) {
+        throw new Error("Unable to resolve the active academic session: no global_settings.session_id and no schoolyear rows");
+    }
+
+    cache.set(key, { sessionId, expiresAt: Date.now() + CACHE_TTL_MS });
+    return sessionId;
+};
+
+export const listSessions = async () => {
+    const activeId = await resolveSessionId();
+    const [rows] = await pool.execute("SELECT id, school_year, created_at FROM schoolyear ORDER BY id DESC");
+    return (rows as any[]).map((row) => ({ ...row, active: Number(row.id) === activeId }));
+};
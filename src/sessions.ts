@@ -0,0 +1,46 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse";
+
+export interface Session {
+    id: string;
+    apiKey: string;
+    server: Server;
+    transport: SSEServerTransport;
+    createdAt: Date;
+}
+
+// Registry of live SSE connections, keyed by the transport's session id.
+// Each connection gets its own Server instance, so clients never share a transport.
+export class SessionRegistry {
+    private sessions = new Map<string, Session>();
+
+    constructor(private maxPerKey: number) { }
+
+    canOpen(apiKey: string): boolean {
+        return this.maxPerKey <= 0 || this.countForKey(apiKey) < this.maxPerKey;
+    }
+
+    add(session: Session): void {
+        this.sessions.set(session.id, session);
+    }
+
+    get(id: string): Session | undefined {
+        return this.sessions.get(id);
+    }
+
+    remove(id: string): void {
+        this.sessions.delete(id);
+    }
+
+    countForKey(apiKey: string): number {
+        let count = 0;
+        for (const session of this.sessions.values()) {
+            if (session.apiKey === apiKey) count++;
+        }
+        return count;
+    }
+
+    get size(): number {
+        return this.sessions.size;
+    }
+}
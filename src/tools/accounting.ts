@@ -0,0 +1,121 @@
+import { z } from "zod";
+import { pool } from "../db";
+import { pageArgs, paginate } from "../pagination";
+import { formatArgs, renderPage } from "../formatting";
+import { defineTool, ToolDefinition } from "./registry";
+
+// Voucher heads, income, expenses and account balances
+export const accountingTools: ToolDefinition[] = [
+    defineTool({
+        name: "list_voucher_heads",
+        module: "office_accounting",
+        description: "List all voucher types/categories for income and expenses",
+        schema: z.object({
+            type: z.string().optional().describe("Filter by type: income or expense"),
+            branch_id: z.number().optional(),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            let query = "SELECT * FROM voucher_head WHERE 1=1";
+            const params: any[] = [];
+            if (parsed.type) { query += " AND type = ?"; params.push(parsed.type); }
+            if (parsed.branch_id) { query += " AND branch_id = ?"; params.push(parsed.branch_id); }
+            const page = await paginate(query, params, [["id", "ASC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "create_voucher_head",
+        module: "office_accounting",
+        description: "Create a new voucher type/category",
+        schema: z.object({
+            name: z.string(),
+            type: z.string().describe("income or expense"),
+            branch_id: z.number().optional()
+        }),
+        handler: async (parsed) => {
+            const branch_id = parsed.branch_id || 1;
+            const [result] = await pool.execute("INSERT INTO voucher_head (name, type, branch_id, system) VALUES (?, ?, ?, 0)", [parsed.name, parsed.type, branch_id]);
+            return { content: [{ type: "text", text: `Voucher head created. ID: ${(result as any).insertId}` }] };
+        },
+    }),
+    defineTool({
+        name: "add_income",
+        module: "office_accounting",
+        description: "Record an income transaction",
+        schema: z.object({
+            voucher_head_id: z.number(),
+            amount: z.number(),
+            date: z.string().describe("YYYY-MM-DD"),
+            description: z.string().optional(),
+            payment_method: z.string().optional().describe("cash, cheque, bank transfer, etc."),
+            ref: z.string().optional().describe("Reference number"),
+            account_id: z.number().optional().describe("Ledger account ID (see list_accounts)"),
+            branch_id: z.number().optional()
+        }),
+        handler: async (parsed) => {
+            const [result] = await pool.execute(`INSERT INTO transactions (voucher_head_id, type, category, amount, cr, date, description, pay_via, ref, account_id, branch_id, system, dr, bal) VALUES (?, 'income', 'income', ?, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0)`, [parsed.voucher_head_id, parsed.amount, parsed.amount, parsed.date, parsed.description || '', parsed.payment_method || 'cash', parsed.ref || '', parsed.account_id || null, parsed.branch_id || 1]);
+            return { content: [{ type: "text", text: `Income recorded successfully. Transaction ID: ${(result as any).insertId}` }] };
+        },
+    }),
+    defineTool({
+        name: "add_expense",
+        module: "office_accounting",
+        description: "Record an expense transaction",
+        schema: z.object({
+            voucher_head_id: z.number(),
+            amount: z.number(),
+            date: z.string().describe("YYYY-MM-DD"),
+            description: z.string().optional(),
+            payment_method: z.string().optional().describe("cash, cheque, bank transfer, etc."),
+            ref: z.string().optional().describe("Reference number"),
+            account_id: z.number().optional().describe("Ledger account ID (see list_accounts)"),
+            branch_id: z.number().optional()
+        }),
+        handler: async (parsed) => {
+            const [result] = await pool.execute(`INSERT INTO transactions (voucher_head_id, type, category, amount, dr, date, description, pay_via, ref, account_id, branch_id, system, cr, bal) VALUES (?, 'expense', 'expense', ?, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0)`, [parsed.voucher_head_id, parsed.amount, parsed.amount, parsed.date, parsed.description || '', parsed.payment_method || 'cash', parsed.ref || '', parsed.account_id || null, parsed.branch_id || 1]);
+            return { content: [{ type: "text", text: `Expense recorded successfully. Transaction ID: ${(result as any).insertId}` }] };
+        },
+    }),
+    defineTool({
+        name: "list_transactions",
+        module: "office_accounting",
+        description: "List income/expense transactions",
+        schema: z.object({
+            type: z.string().optional().describe("Filter by income or expense"),
+            start_date: z.string().optional().describe("YYYY-MM-DD"),
+            end_date: z.string().optional().describe("YYYY-MM-DD"),
+            branch_id: z.number().optional(),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            let query = `SELECT t.*, v.name as voucher_name FROM transactions t LEFT JOIN voucher_head v ON t.voucher_head_id = v.id WHERE 1=1`;
+            const params: any[] = [];
+            if (parsed.branch_id) { query += " AND t.branch_id = ?"; params.push(parsed.branch_id); }
+            if (parsed.type) { query += " AND t.type = ?"; params.push(parsed.type); }
+            if (parsed.start_date) { query += " AND t.date >= ?"; params.push(parsed.start_date); }
+            if (parsed.end_date) { query += " AND t.date <= ?"; params.push(parsed.end_date); }
+            const page = await paginate(query, params, [["date", "DESC"], ["id", "DESC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "list_accounts",
+        module: "office_accounting",
+        description: "List all ledger accounts with balances",
+        schema: z.object({
+            branch_id: z.number().optional(),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            let query = "SELECT * FROM accounts WHERE 1=1";
+            const params: any[] = [];
+            if (parsed.branch_id) { query += " AND branch_id = ?"; params.push(parsed.branch_id); }
+            const page = await paginate(query, params, [["name", "ASC"], ["id", "ASC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+];
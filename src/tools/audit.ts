@@ -0,0 +1,29 @@
+import { z } from "zod";
+import { listAuditEntries } from "../audit";
+import { pageArgs } from "../pagination";
+import { formatArgs, renderPage } from "../formatting";
+import { defineTool, ToolDefinition } from "./registry";
+
+// Audit trail of data-changing tool calls
+export const auditTools: ToolDefinition[] = [
+    defineTool({
+        name: "list_audit_log",
+        description: "List the audit trail of data-changing tool calls (who, what, affected IDs, outcome), newest first",
+        schema: z.object({
+            tool: z.string().optional().describe("Tool name, e.g. update_fee_payment"),
+            user_id: z.number().optional(),
+            branch_id: z.number().optional(),
+            outcome: z.enum(["success", "error"]).optional(),
+            affected_table: z.string().regex(/^\w+$/).optional().describe("Table of affected_id, e.g. student"),
+            affected_id: z.number().optional().describe("Record ID touched by the call"),
+            date_from: z.string().optional().describe("YYYY-MM-DD"),
+            date_to: z.string().optional().describe("YYYY-MM-DD"),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            const page = await listAuditEntries(parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+];
@@ -0,0 +1,26 @@
+import { z } from "zod";
+import { formatArgs, renderRows } from "../formatting";
+import { MAX_QUERY_ROWS, runReadonlyQuery } from "../readonly-query";
+import { defineTool, ToolDefinition } from "./registry";
+
+// Ad-hoc reads for questions no dedicated tool answers yet. Queries are not branch-scoped, so the tool
+// has no entry in TOOL_PERMISSIONS and only superadmin keys may call it.
+export const databaseTools: ToolDefinition[] = [
+    defineTool({
+        name: "run_readonly_query",
+        description: "Run a single read-only SELECT against the school database (allowlisted tables only, sensitive columns redacted). See the schema://tables resource for table and column names",
+        schema: z.object({
+            sql: z.string().describe("One SELECT statement, without comments"),
+            limit: z.number().int().positive().optional().describe(`Maximum rows to return (default and cap ${MAX_QUERY_ROWS})`),
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            const { rows, truncated } = await runReadonlyQuery(parsed.sql, parsed.limit || MAX_QUERY_ROWS);
+            const content = renderRows(rows, parsed);
+            if (truncated) {
+                content.push({ type: "text", text: `Only the first ${rows.length} rows are shown; narrow the query or aggregate to see the rest.` });
+            }
+            return { content };
+        },
+    }),
+];
@@ -0,0 +1,164 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types";
+import { z } from "zod";
+import { pool, Statement } from "../db";
+import { ensureAdmissionTable, ensureReviewTable, PARENT_ROLE_ID, STUDENT_ROLE_ID } from "../admissions";
+import { DUPLICATE_ENTITIES, DuplicateEntity, findDuplicatePairs, loadPeople } from "../duplicates";
+import { formatArgs, renderRows } from "../formatting";
+import { defineTool, ToolDefinition } from "./registry";
+
+const list = (ids: number[]) => ids.map(() => "?").join(",");
+
+// Moves a student's enrollments and marks onto the kept student. Where the kept student already has an
+// enrollment for the session (or a mark for the exam and subject), the duplicate's row is dropped instead;
+// attendance taken against a dropped enrollment moves to the kept one.
+const mergeStudents = async (keepId: number, mergeIds: number[]): Promise<Statement[]> => {
+    const statements: Statement[] = [];
+
+    const [enrollRows] = await pool.execute(
+        `SELECT id, student_id, session_id FROM enroll WHERE student_id IN (${list([keepId, ...mergeIds])}) ORDER BY student_id = ? DESC, id`,
+        [keepId, ...mergeIds, keepId]
+    );
+    const sessionEnroll = new Map<string, number>();
+    const movedEnrolls: number[] = [];
+    for (const row of enrollRows as any[]) {
+        const kept = sessionEnroll.get(String(row.session_id));
+        if (kept === undefined) {
+            sessionEnroll.set(String(row.session_id), Number(row.id));
+            if (Number(row.student_id) !== keepId) movedEnrolls.push(Number(row.id));
+        } else {
+            statements.push(
+                { sql: "UPDATE student_attendance SET enroll_id = ? WHERE enroll_id = ?", params: [kept, row.id] },
+                { sql: "DELETE FROM enroll WHERE id = ?", params: [row.id] }
+            );
+        }
+    }
+    if (movedEnrolls.length > 0) {
+        statements.push({ sql: `UPDATE enroll SET student_id = ? WHERE id IN (${list(movedEnrolls)})`, params: [keepId, ...movedEnrolls] });
+    }
+
+    const [markRows] = await pool.execute(
+        `SELECT id, student_id, exam_id, subject_id FROM mark WHERE student_id IN (${list([keepId, ...mergeIds])}) ORDER BY student_id = ? DESC, id`,
+        [keepId, ...mergeIds, keepId]
+    );
+    const examSubjects = new Set<string>();
+    const movedMarks: number[] = [];
+    const droppedMarks: number[] = [];
+    for (const row of markRows as any[]) {
+        const key = `${row.exam_id}:${row.subject_id}`;
+        if (examSubjects.has(key)) {
+            droppedMarks.push(Number(row.id));
+            continue;
+        }
+        examSubjects.add(key);
+        if (Number(row.student_id) !== keepId) movedMarks.push(Number(row.id));
+    }
+    if (droppedMarks.length > 0) {
+        statements.push({ sql: `DELETE FROM mark WHERE id IN (${list(droppedMarks)})`, params: droppedMarks });
+    }
+    if (movedMarks.length > 0) {
+        statements.push({ sql: `UPDATE mark SET student_id = ? WHERE id IN (${list(movedMarks)})`, params: [keepId, ...movedMarks] });
+    }
+
+    // Fee allocations keep their payments, so they all move even if the kept student has the same fee group
+    await ensureAdmissionTable();
+    await ensureReviewTable();
+    statements.push(
+        { sql: `UPDATE fee_allocation SET student_id = ? WHERE student_id IN (${list(mergeIds)})`, params: [keepId, ...mergeIds] },
+        { sql: `UPDATE student_leave SET student_id = ? WHERE student_id IN (${list(mergeIds)})`, params: [keepId, ...mergeIds] },
+        { sql: `UPDATE mcp_inquiry_admission SET student_id = ? WHERE student_id IN (${list(mergeIds)})`, params: [keepId, ...mergeIds] },
+        { sql: `UPDATE mcp_online_admission_review SET student_id = ? WHERE student_id IN (${list(mergeIds)})`, params: [keepId, ...mergeIds] },
+        { sql: `DELETE FROM login_credential WHERE role = ${STUDENT_ROLE_ID} AND user_id IN (${list(mergeIds)})`, params: mergeIds },
+        { sql: `DELETE FROM student WHERE id IN (${list(mergeIds)})`, params: mergeIds }
+    );
+    return statements;
+};
+
+const mergeParents = async (keepId: number, mergeIds: number[]): Promise<Statement[]> => {
+    await ensureAdmissionTable();
+    await ensureReviewTable();
+    return [
+        { sql: `UPDATE student SET parent_id = ? WHERE parent_id IN (${list(mergeIds)})`, params: [keepId, ...mergeIds] },
+        { sql: `UPDATE mcp_inquiry_admission SET parent_id = ? WHERE parent_id IN (${list(mergeIds)})`, params: [keepId, ...mergeIds] },
+        { sql: `UPDATE mcp_online_admission_review SET parent_id = ? WHERE parent_id IN (${list(mergeIds)})`, params: [keepId, ...mergeIds] },
+        { sql: `DELETE FROM login_credential WHERE role = ${PARENT_ROLE_ID} AND user_id IN (${list(mergeIds)})`, params: mergeIds },
+        { sql: `DELETE FROM parent WHERE id IN (${list(mergeIds)})`, params: mergeIds },
+    ];
+};
+
+// Follow-ups move to the kept inquiry. If only a duplicate was admitted, the kept inquiry takes over its
+// admission and converted status; other duplicates' admission records are dropped (the students remain).
+const mergeInquiries = async (keepId: number, mergeIds: number[]): Promise<Statement[]> => {
+    await ensureAdmissionTable();
+    const [admissions] = await pool.execute(
+        `SELECT enquiry_id FROM mcp_inquiry_admission WHERE enquiry_id IN (${list([keepId, ...mergeIds])}) ORDER BY enquiry_id = ? DESC, converted_at`,
+        [keepId, ...mergeIds, keepId]
+    );
+    const admitted = (admissions as any[]).map((row) => Number(row.enquiry_id));
+
+    const statements: Statement[] = [
+        { sql: `UPDATE enquiry_follow_up SET enquiry_id = ? WHERE enquiry_id IN (${list(mergeIds)})`, params: [keepId, ...mergeIds] },
+    ];
+    if (admitted.length > 0 && admitted[0] !== keepId) {
+        statements.push(
+            { sql: "UPDATE mcp_inquiry_admission SET enquiry_id = ? WHERE enquiry_id = ?", params: [keepId, admitted[0]] },
+            { sql: "UPDATE enquiry SET status = 'converted', updated_at = NOW() WHERE id = ?", params: [keepId] }
+        );
+    }
+    statements.push(
+        { sql: `DELETE FROM mcp_inquiry_admission WHERE enquiry_id IN (${list(mergeIds)})`, params: mergeIds },
+        { sql: `DELETE FROM enquiry WHERE id IN (${list(mergeIds)})`, params: mergeIds }
+    );
+    return statements;
+};
+
+const MERGES: Record<DuplicateEntity, (keepId: number, mergeIds: number[]) => Promise<Statement[]>> = {
+    student: mergeStudents,
+    parent: mergeParents,
+    inquiry: mergeInquiries,
+};
+
+// Likely duplicate inquiries, students and parents (see duplicates.ts for how records are matched)
+export const duplicateTools: ToolDefinition[] = [
+    defineTool({
+        name: "find_duplicates",
+        module: "student",
+        description: "Report likely duplicate inquiries, students or parents: mobile numbers are normalized, names matched phonetically and dates of birth compared. Each row is a pair with the details that matched",
+        schema: z.object({
+            entity: z.enum(DUPLICATE_ENTITIES),
+            branch_id: z.number().optional(),
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            const pairs = await findDuplicatePairs(parsed.entity, parsed.branch_id);
+            return { content: renderRows(pairs, parsed) };
+        },
+    }),
+    defineTool({
+        name: "merge_records",
+        module: "student",
+        description: "Merge duplicate inquiries, students or parents into one surviving record. Students: enrollments, marks, fee allocations and leave requests move to the kept student. Parents: their children move to the kept parent. Inquiries: follow-ups move to the kept inquiry. The duplicates (and their logins) are then deleted",
+        schema: z.object({
+            entity: z.enum(DUPLICATE_ENTITIES),
+            keep_id: z.number().describe("Record that survives"),
+            merge_ids: z.array(z.number()).min(1).describe("Duplicates to fold into keep_id and delete"),
+            branch_id: z.number().optional()
+        }),
+        handler: async (parsed) => {
+            const mergeIds = [...new Set(parsed.merge_ids)];
+            if (mergeIds.includes(parsed.keep_id)) {
+                throw new McpError(ErrorCode.InvalidParams, "keep_id cannot also be in merge_ids");
+            }
+
+            const ids = [parsed.keep_id, ...mergeIds];
+            const found = new Set((await loadPeople(parsed.entity, parsed.branch_id, ids)).map((record) => record.id));
+            const missing = ids.filter((id) => !found.has(id));
+            if (missing.length > 0) {
+                const scope = parsed.branch_id ? ` in branch ${parsed.branch_id}` : "";
+                throw new McpError(ErrorCode.InvalidRequest, `${parsed.entity} ${missing.join(", ")} not found${scope}`);
+            }
+
+            await pool.batch(await MERGES[parsed.entity](parsed.keep_id, mergeIds));
+            return { content: [{ type: "text", text: `Merged ${parsed.entity} ${mergeIds.join(", ")} into ${parsed.keep_id}.` }] };
+        },
+    }),
+];
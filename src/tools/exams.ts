@@ -0,0 +1,493 @@
+import { z } from "zod";
+import { today } from "../dates";
+import { pool } from "../db";
+import { resolveSessionId } from "../school-year";
+import { pageArgs, paginate } from "../pagination";
+import { formatArgs, renderPage, renderRows } from "../formatting";
+import { defineTool, ToolDefinition } from "./registry";
+
+// Exams, terms, halls, grades and marks
+export const examTools: ToolDefinition[] = [
+    defineTool({
+        name: "create_exam",
+        module: "exam_master",
+        description: "Create or update an exam",
+        schema: z.object({
+            exam_id: z.number().optional(),
+            name: z.string(),
+            term_id: z.number().optional(),
+            type_id: z.number().optional(),
+            mark_distribution: z.array(z.number()).optional(),
+            remark: z.string().optional(),
+            branch_id: z.number().optional(),
+            session_id: z.number().optional().describe("Academic session ID (defaults to the active session)")
+        }),
+        handler: async (parsed) => {
+            if (parsed.exam_id) {
+                const updates = []; const values = [];
+                if (parsed.name) { updates.push("name = ?"); values.push(parsed.name); }
+                if (parsed.term_id) { updates.push("term_id = ?"); values.push(parsed.term_id); }
+                if (parsed.type_id) { updates.push("type_id = ?"); values.push(parsed.type_id); }
+                if (parsed.mark_distribution) { updates.push("mark_distribution = ?"); values.push(JSON.stringify(parsed.mark_distribution)); }
+                if (parsed.remark) { updates.push("remark = ?"); values.push(parsed.remark); }
+                if (updates.length > 0) {
+                    values.push(parsed.exam_id);
+                    await pool.execute(`UPDATE exam SET ${updates.join(", ")} WHERE id = ?`, values);
+                    return { content: [{ type: "text", text: `Exam ${parsed.exam_id} updated.` }] };
+                }
+            } else {
+                const sessionId = await resolveSessionId(parsed.session_id);
+                const [result] = await pool.execute(
+                    "INSERT INTO exam (name, term_id, type_id, mark_distribution, remark, branch_id, session_id) VALUES (?, ?, ?, ?, ?, ?, ?)",
+                    [parsed.name, parsed.term_id || null, parsed.type_id || null, JSON.stringify(parsed.mark_distribution || []), parsed.remark || null, parsed.branch_id || 1, sessionId]
+                );
+                return { content: [{ type: "text", text: `Exam created. ID: ${(result as any).insertId}` }] };
+            }
+            return { content: [{ type: "text", text: "Invalid request." }] };
+        },
+    }),
+    defineTool({
+        name: "list_exams",
+        module: "exam_master",
+        description: "List exams in the current session",
+        schema: z.object({
+            branch_id: z.number().optional(),
+            session_id: z.number().optional().describe("Academic session ID (defaults to the active session)"),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            let query = "SELECT * FROM exam WHERE session_id = ?";
+            const params: any[] = [await resolveSessionId(parsed.session_id)];
+            if (parsed.branch_id) {
+                query += " AND branch_id = ?";
+                params.push(parsed.branch_id);
+            }
+            const page = await paginate(query, params, [["id", "ASC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "delete_exam",
+        module: "exam_master",
+        description: "Delete an exam",
+        schema: z.object({
+            id: z.number()
+        }),
+        handler: async ({ id }) => {
+            await pool.execute("DELETE FROM exam WHERE id = ?", [id]);
+            return { content: [{ type: "text", text: `Exam ${id} deleted.` }] };
+        },
+    }),
+    defineTool({
+        name: "create_exam_term",
+        module: "exam_master",
+        description: "Create or update an exam term",
+        schema: z.object({
+            term_id: z.number().optional(),
+            term_name: z.string(),
+            branch_id: z.number().optional(),
+            session_id: z.number().optional().describe("Academic session ID (defaults to the active session)")
+        }),
+        handler: async (parsed) => {
+            if (parsed.term_id) {
+                await pool.execute("UPDATE exam_term SET name = ? WHERE id = ?", [parsed.term_name, parsed.term_id]);
+                return { content: [{ type: "text", text: `Term ${parsed.term_id} updated.` }] };
+            } else {
+                const sessionId = await resolveSessionId(parsed.session_id);
+                const [result] = await pool.execute(
+                    "INSERT INTO exam_term (name, branch_id, session_id) VALUES (?, ?, ?)",
+                    [parsed.term_name, parsed.branch_id || 1, sessionId]
+                );
+                return { content: [{ type: "text", text: `Term created. ID: ${(result as any).insertId}` }] };
+            }
+        },
+    }),
+    defineTool({
+        name: "list_exam_terms",
+        module: "exam_master",
+        description: "List exam terms",
+        schema: z.object({
+            branch_id: z.number().optional(),
+            session_id: z.number().optional().describe("Academic session ID (defaults to the active session)"),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            let query = "SELECT * FROM exam_term WHERE session_id = ?";
+            const params: any[] = [await resolveSessionId(parsed.session_id)];
+            if (parsed.branch_id) {
+                query += " AND branch_id = ?";
+                params.push(parsed.branch_id);
+            }
+            const page = await paginate(query, params, [["id", "ASC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "create_exam_hall",
+        module: "exam_master",
+        description: "Create or update an exam hall",
+        schema: z.object({
+            hall_id: z.number().optional(),
+            hall_no: z.string(),
+            no_of_seats: z.number(),
+            branch_id: z.number().optional()
+        }),
+        handler: async (parsed) => {
+            if (parsed.hall_id) {
+                await pool.execute("UPDATE exam_hall SET hall_no = ?, seats = ? WHERE id = ?", [parsed.hall_no, parsed.no_of_seats, parsed.hall_id]);
+                return { content: [{ type: "text", text: `Hall ${parsed.hall_id} updated.` }] };
+            } else {
+                const [result] = await pool.execute(
+                    "INSERT INTO exam_hall (hall_no, seats, branch_id) VALUES (?, ?, ?)",
+                    [parsed.hall_no, parsed.no_of_seats, parsed.branch_id || 1]
+                );
+                return { content: [{ type: "text", text: `Hall created. ID: ${(result as any).insertId}` }] };
+            }
+        },
+    }),
+    defineTool({
+        name: "list_exam_halls",
+        module: "exam_master",
+        description: "List exam halls",
+        schema: z.object({
+            branch_id: z.number().optional(),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            let query = "SELECT * FROM exam_hall";
+            const params = [];
+            if (parsed.branch_id) {
+                query += " WHERE branch_id = ?";
+                params.push(parsed.branch_id);
+            }
+            const page = await paginate(query, params, [["id", "ASC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "create_grade",
+        module: "exam_master",
+        description: "Create or update a grading system",
+        schema: z.object({
+            grade_id: z.number().optional(),
+            name: z.string(),
+            grade_point: z.number(),
+            lower_mark: z.number(),
+            upper_mark: z.number(),
+            remark: z.string().optional(),
+            branch_id: z.number().optional()
+        }),
+        handler: async (parsed) => {
+            if (parsed.grade_id) {
+                await pool.execute(
+                    "UPDATE grade SET name = ?, grade_point = ?, lower_mark = ?, upper_mark = ?, remark = ? WHERE id = ?",
+                    [parsed.name, parsed.grade_point, parsed.lower_mark, parsed.upper_mark, parsed.remark || null, parsed.grade_id]
+                );
+                return { content: [{ type: "text", text: `Grade ${parsed.grade_id} updated.` }] };
+            } else {
+                const [result] = await pool.execute(
+                    "INSERT INTO grade (name, grade_point, lower_mark, upper_mark, remark, branch_id) VALUES (?, ?, ?, ?, ?, ?)",
+                    [parsed.name, parsed.grade_point, parsed.lower_mark, parsed.upper_mark, parsed.remark || null, parsed.branch_id || 1]
+                );
+                return { content: [{ type: "text", text: `Grade created. ID: ${(result as any).insertId}` }] };
+            }
+        },
+    }),
+    defineTool({
+        name: "list_grades",
+        module: "exam_master",
+        description: "List grading systems",
+        schema: z.object({
+            branch_id: z.number().optional(),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            let query = "SELECT * FROM grade";
+            const params = [];
+            if (parsed.branch_id) {
+                query += " WHERE branch_id = ?";
+                params.push(parsed.branch_id);
+            }
+            const page = await paginate(query, params, [["id", "ASC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "record_marks",
+        module: "exam_master",
+        description: "Record marks for a student in a subject for an exam",
+        schema: z.object({
+            student_id: z.number(),
+            exam_id: z.number(),
+            subject_id: z.number(),
+            class_id: z.number(),
+            section_id: z.number(),
+            mark: z.number(),
+            absent: z.boolean().optional(),
+            session_id: z.number().optional().describe("Academic session ID (defaults to the active session)")
+        }),
+        handler: async (parsed) => {
+            const sessionId = await resolveSessionId(parsed.session_id);
+            // Check if mark already exists
+            const [existing] = await pool.execute(
+                "SELECT id FROM mark WHERE student_id = ? AND exam_id = ? AND subject_id = ? AND class_id = ? AND section_id = ? AND session_id = ?",
+                [parsed.student_id, parsed.exam_id, parsed.subject_id, parsed.class_id, parsed.section_id, sessionId]
+            );
+            if ((existing as any[]).length > 0) {
+                await pool.execute(
+                    "UPDATE mark SET mark = ?, absent = ? WHERE id = ?",
+                    [parsed.mark, parsed.absent ? 1 : 0, (existing as any[])[0].id]
+                );
+                return { content: [{ type: "text", text: "Marks updated." }] };
+            } else {
+                await pool.execute(
+                    "INSERT INTO mark (student_id, exam_id, subject_id, class_id, section_id, session_id, mark, absent) VALUES (?, ?, ?, ?, ?, ?, ?, ?)",
+                    [parsed.student_id, parsed.exam_id, parsed.subject_id, parsed.class_id, parsed.section_id, sessionId, parsed.mark, parsed.absent ? 1 : 0]
+                );
+                return { content: [{ type: "text", text: "Marks recorded." }] };
+            }
+        },
+    }),
+    defineTool({
+        name: "get_student_marks",
+        module: "exam_master",
+        description: "Retrieve marks for a student for a specific exam",
+        schema: z.object({
+            student_id: z.number(),
+            exam_id: z.number(),
+            session_id: z.number().optional().describe("Academic session ID (defaults to the active session)"),
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            const sessionId = await resolveSessionId(parsed.session_id);
+            const query = `
+                SELECT m.mark, m.absent, s.name as subject_name
+                FROM mark m
+                JOIN subject s ON m.subject_id = s.id
+                WHERE m.student_id = ? AND m.exam_id = ? AND m.session_id = ?
+            `;
+            const [rows] = await pool.execute(query, [parsed.student_id, parsed.exam_id, sessionId]);
+            return { content: renderRows(rows, parsed) };
+        },
+    }),
+    defineTool({
+        name: "list_class_marks",
+        module: "exam_master",
+        description: "Get all student marks for an exam, optionally narrowed to a class and section",
+        schema: z.object({
+            class_id: z.number().optional(),
+            section_id: z.number().optional(),
+            exam_id: z.number(),
+            session_id: z.number().optional().describe("Academic session ID (defaults to the active session)"),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            const sessionId = await resolveSessionId(parsed.session_id);
+            let query = `
+                SELECT 
+                    s.id as student_id, s.first_name, s.last_name, s.register_no,
+                    sub.id as subject_id, sub.name as subject_name,
+                    m.mark as mark, m.absent
+                FROM mark m
+                JOIN student s ON m.student_id = s.id
+                JOIN subject sub ON m.subject_id = sub.id
+                WHERE m.exam_id = ? AND m.session_id = ?
+            `;
+            const params: any[] = [parsed.exam_id, sessionId];
+            if (parsed.class_id) { query += " AND m.class_id = ?"; params.push(parsed.class_id); }
+            if (parsed.section_id) { query += " AND m.section_id = ?"; params.push(parsed.section_id); }
+            const page = await paginate(query, params, [["student_id", "ASC"], ["subject_id", "ASC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "list_at_risk_students",
+        module: "exam_master",
+        description: "Identify students at high risk of leaving (Poor grades AND Unpaid fees)",
+        schema: z.object({
+            class_id: z.number().optional(),
+            exam_id: z.number(),
+            session_id: z.number().optional().describe("Academic session ID (defaults to the active session)"),
+            branch_id: z.number().optional(),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            const sessionId = await resolveSessionId(parsed.session_id);
+
+            let query = `
+                WITH FailCount AS (
+                    SELECT student_id, COUNT(*) as failed_subjects
+                    FROM mark
+                    WHERE exam_id = ? AND session_id = ? AND (
+                        CAST(JSON_EXTRACT(mark, '$.\"12\"') AS DECIMAL) < 33 OR absent = 1
+                    )
+                    GROUP BY student_id
+                ),
+                FeeBalance AS (
+                    SELECT 
+                        fa.student_id,
+                        (COALESCE(SUM(gd.amount), 0) + COALESCE(MAX(fa.prev_due), 0)) - 
+                        COALESCE((
+                            SELECT SUM(h.amount + h.discount) 
+                            FROM fee_payment_history h 
+                            JOIN fee_allocation a ON h.allocation_id = a.id 
+                            WHERE a.student_id = fa.student_id AND a.session_id = ?
+                        ), 0) as balance
+                    FROM fee_allocation fa
+                    LEFT JOIN fee_groups_details gd ON fa.group_id = gd.fee_groups_id
+                    WHERE fa.session_id = ?
+                    GROUP BY fa.student_id
+                )
+                SELECT 
+                    s.id as student_id, s.first_name, s.last_name, s.register_no,
+                    c.name as class_name, se.name as section_name,
+                    COALESCE(fc.failed_subjects, 0) as failed_subjects,
+                    COALESCE(fb.balance, 0) as pending_balance
+                FROM student s
+                JOIN enroll e ON s.id = e.student_id
+                JOIN class c ON e.class_id = c.id
+                JOIN section se ON e.section_id = se.id
+                LEFT JOIN FailCount fc ON s.id = fc.student_id
+                LEFT JOIN FeeBalance fb ON s.id = fb.student_id
+                WHERE e.session_id = ?
+            `;
+
+            const params: any[] = [parsed.exam_id, sessionId, sessionId, sessionId, sessionId];
+            if (parsed.branch_id) {
+                query += " AND e.branch_id = ?";
+                params.push(parsed.branch_id);
+            }
+            if (parsed.class_id) {
+                query += " AND e.class_id = ?";
+                params.push(parsed.class_id);
+            }
+
+            query += " HAVING (failed_subjects > 0 AND pending_balance > 0) OR pending_balance > 500 OR failed_subjects > 2";
+
+            const page = await paginate(query, params, [["pending_balance", "DESC"], ["failed_subjects", "DESC"], ["student_id", "ASC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "get_attendance_report",
+        module: "attendance",
+        description: "Get attendance report for a class and section for a specific date",
+        schema: z.object({
+            class_id: z.number(),
+            section_id: z.number().optional(),
+            date: z.string().optional().describe("YYYY-MM-DD (defaults to today)"),
+            session_id: z.number().optional().describe("Academic session ID (defaults to the active session)"),
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            const sessionId = await resolveSessionId(parsed.session_id);
+
+            const reportDate = parsed.date || today();
+
+            let query = `
+                SELECT 
+                    s.id as student_id, s.first_name, s.last_name, s.register_no,
+                    sa.status, sa.remark, sa.date
+                FROM student_attendance sa
+                JOIN enroll e ON sa.enroll_id = e.id
+                JOIN student s ON e.student_id = s.id
+                WHERE e.class_id = ? AND sa.date = ? AND e.session_id = ?
+            `;
+
+            const params: any[] = [parsed.class_id, reportDate, sessionId];
+            if (parsed.section_id) {
+                query += " AND e.section_id = ?";
+                params.push(parsed.section_id);
+            }
+
+            const [rows] = await pool.execute(query, params);
+            return { content: renderRows(rows, parsed) };
+        },
+    }),
+    defineTool({
+        name: "list_top_students",
+        module: "exam_master",
+        description: "Identify best students (High marks, Paid fees, Good attendance)",
+        schema: z.object({
+            class_id: z.number().optional(),
+            exam_id: z.number(),
+            session_id: z.number().optional().describe("Academic session ID (defaults to the active session)"),
+            branch_id: z.number().optional(),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            const sessionId = await resolveSessionId(parsed.session_id);
+
+            let query = `
+                WITH TotalMarks AS (
+                    SELECT student_id, SUM(CAST(JSON_EXTRACT(mark, '$.\"12\"') AS DECIMAL)) as total_marks
+                    FROM mark
+                    WHERE exam_id = ? AND session_id = ?
+                    GROUP BY student_id
+                ),
+                FeeBalance AS (
+                    SELECT 
+                        fa.student_id,
+                        (COALESCE(SUM(gd.amount), 0) + COALESCE(MAX(fa.prev_due), 0)) - 
+                        COALESCE((
+                            SELECT SUM(h.amount + h.discount) 
+                            FROM fee_payment_history h 
+                            JOIN fee_allocation a ON h.allocation_id = a.id 
+                            WHERE a.student_id = fa.student_id AND a.session_id = ?
+                        ), 0) as balance
+                    FROM fee_allocation fa
+                    LEFT JOIN fee_groups_details gd ON fa.group_id = gd.fee_groups_id
+                    WHERE fa.session_id = ?
+                    GROUP BY fa.student_id
+                ),
+                AttendanceRate AS (
+                    SELECT 
+                        e.student_id,
+                        COUNT(*) as total_days,
+                        SUM(CASE WHEN sa.status = 'P' THEN 1 ELSE 0 END) as present_days
+                    FROM student_attendance sa
+                    JOIN enroll e ON sa.enroll_id = e.id
+                    WHERE e.session_id = ?
+                    GROUP BY e.student_id
+                )
+                SELECT 
+                    s.id as student_id, s.first_name, s.last_name, s.register_no,
+                    c.name as class_name, se.name as section_name,
+                    COALESCE(tm.total_marks, 0) as total_marks,
+                    COALESCE(fb.balance, 0) as balance,
+                    CASE WHEN ar.total_days > 0 THEN (ar.present_days * 100.0 / ar.total_days) ELSE 0 END as attendance_percentage
+                FROM student s
+                JOIN enroll e ON s.id = e.student_id
+                JOIN class c ON e.class_id = c.id
+                JOIN section se ON e.section_id = se.id
+                LEFT JOIN TotalMarks tm ON s.id = tm.student_id
+                LEFT JOIN FeeBalance fb ON s.id = fb.student_id
+                LEFT JOIN AttendanceRate ar ON s.id = ar.student_id
+                WHERE e.session_id = ?
+            `;
+
+            const params: any[] = [parsed.exam_id, sessionId, sessionId, sessionId, sessionId, sessionId];
+            if (parsed.branch_id) {
+                query += " AND e.branch_id = ?";
+                params.push(parsed.branch_id);
+            }
+            if (parsed.class_id) {
+                query += " AND e.class_id = ?";
+                params.push(parsed.class_id);
+            }
+
+            // Criteria: Balance <= 0 (paid), Marks > 50, Attendance >= 70%
+            query += " HAVING balance <= 0 AND total_marks > 50 AND attendance_percentage >= 70";
+
+            const page = await paginate(query, params, [["total_marks", "DESC"], ["attendance_percentage", "DESC"], ["student_id", "ASC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+];
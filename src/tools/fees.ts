@@ -0,0 +1,423 @@
+import { z } from "zod";
+import { today } from "../dates";
+import { pool, Statement } from "../db";
+import { resolveSessionId } from "../school-year";
+import { pageArgs, paginate } from "../pagination";
+import { formatArgs, renderPage, renderRows } from "../formatting";
+import { defineTool, ToolDefinition } from "./registry";
+
+// Fee types, groups, allocations and payments
+export const feeTools: ToolDefinition[] = [
+    defineTool({
+        name: "create_fee_type",
+        module: "student_accounting",
+        description: "Create a new fee type",
+        schema: z.object({
+            name: z.string(),
+            description: z.string().optional(),
+            branch_id: z.number().optional()
+        }),
+        handler: async (parsed) => {
+            const fee_code = parsed.name.toLowerCase().replace(/ /g, '-');
+            const [result] = await pool.execute(
+                "INSERT INTO fees_type (name, fee_code, description, branch_id, system, created_at) VALUES (?, ?, ?, ?, 0, NOW())",
+                [parsed.name, fee_code, parsed.description || null, parsed.branch_id || 1]
+            );
+            return { content: [{ type: "text", text: `Fee type created. ID: ${(result as any).insertId}` }] };
+        },
+    }),
+    defineTool({
+        name: "list_fee_types",
+        module: "student_accounting",
+        description: "List fee types",
+        schema: z.object({
+            branch_id: z.number().optional(),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            let query = "SELECT * FROM fees_type";
+            const params = [];
+            if (parsed.branch_id) {
+                query += " WHERE branch_id = ?";
+                params.push(parsed.branch_id);
+            }
+            const page = await paginate(query, params, [["id", "ASC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "update_fee_type",
+        module: "student_accounting",
+        description: "Update a fee type",
+        schema: z.object({
+            id: z.number(),
+            name: z.string().optional(),
+            description: z.string().optional()
+        }),
+        handler: async (parsed) => {
+            const updates = []; const values = [];
+            if (parsed.name) {
+                updates.push("name = ?"); values.push(parsed.name);
+                updates.push("fee_code = ?"); values.push(parsed.name.toLowerCase().replace(/ /g, '-'));
+            }
+            if (parsed.description) { updates.push("description = ?"); values.push(parsed.description); }
+            if (updates.length > 0) {
+                values.push(parsed.id);
+                await pool.execute(`UPDATE fees_type SET ${updates.join(", ")} WHERE id = ?`, values);
+                return { content: [{ type: "text", text: `Fee type ${parsed.id} updated.` }] };
+            }
+            return { content: [{ type: "text", text: "No updates." }] };
+        },
+    }),
+    defineTool({
+        name: "delete_fee_type",
+        module: "student_accounting",
+        description: "Delete a fee type",
+        schema: z.object({
+            id: z.number()
+        }),
+        handler: async ({ id }) => {
+            await pool.execute("DELETE FROM fees_type WHERE id = ?", [id]);
+            return { content: [{ type: "text", text: `Fee type ${id} deleted.` }] };
+        },
+    }),
+    defineTool({
+        name: "create_fee_group",
+        module: "student_accounting",
+        description: "Create a new fee group",
+        schema: z.object({
+            name: z.string(),
+            description: z.string().optional(),
+            branch_id: z.number().optional(),
+            session_id: z.number().optional().describe("Academic session ID (defaults to the active session)")
+        }),
+        handler: async (parsed) => {
+            const sessionId = await resolveSessionId(parsed.session_id);
+            const [result] = await pool.execute(
+                "INSERT INTO fee_groups (name, description, branch_id, session_id, system, created_at) VALUES (?, ?, ?, ?, 0, NOW())",
+                [parsed.name, parsed.description || null, parsed.branch_id || 1, sessionId]
+            );
+            return { content: [{ type: "text", text: `Fee group created. ID: ${(result as any).insertId}` }] };
+        },
+    }),
+    defineTool({
+        name: "list_fee_groups",
+        module: "student_accounting",
+        description: "List fee groups",
+        schema: z.object({
+            branch_id: z.number().optional(),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            let query = "SELECT * FROM fee_groups";
+            const params = [];
+            if (parsed.branch_id) {
+                query += " WHERE branch_id = ?";
+                params.push(parsed.branch_id);
+            }
+            const page = await paginate(query, params, [["id", "ASC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "add_fee_group_details",
+        module: "student_accounting",
+        description: "Link fee type to group with amount and due date",
+        schema: z.object({
+            fee_groups_id: z.number(),
+            fee_type_id: z.number(),
+            amount: z.number(),
+            due_date: z.string().describe("YYYY-MM-DD")
+        }),
+        handler: async (parsed) => {
+            await pool.execute(
+                "INSERT INTO fee_groups_details (fee_groups_id, fee_type_id, amount, due_date) VALUES (?, ?, ?, ?)",
+                [parsed.fee_groups_id, parsed.fee_type_id, parsed.amount, parsed.due_date]
+            );
+            return { content: [{ type: "text", text: "Fee group details added." }] };
+        },
+    }),
+    defineTool({
+        name: "allocate_fees",
+        module: "student_accounting",
+        description: "Assign a fee group to a student",
+        schema: z.object({
+            student_id: z.number(),
+            group_id: z.number(),
+            branch_id: z.number().optional(),
+            prev_due: z.number().optional(),
+            session_id: z.number().optional().describe("Academic session ID (defaults to the active session)")
+        }),
+        handler: async (parsed) => {
+            const sessionId = await resolveSessionId(parsed.session_id);
+            const [result] = await pool.execute(
+                "INSERT INTO fee_allocation (student_id, group_id, branch_id, session_id, prev_due) VALUES (?, ?, ?, ?, ?)",
+                [parsed.student_id, parsed.group_id, parsed.branch_id || 1, sessionId, parsed.prev_due || 0]
+            );
+            return { content: [{ type: "text", text: `Fees allocated. Allocation ID: ${(result as any).insertId}` }] };
+        },
+    }),
+    defineTool({
+        name: "collect_fees",
+        module: "student_accounting",
+        description: "Record a fee payment",
+        schema: z.object({
+            allocation_id: z.number(),
+            type_id: z.number(),
+            amount: z.number(),
+            discount: z.number().optional(),
+            fine: z.number().optional(),
+            date: z.string().describe("YYYY-MM-DD"),
+            method: z.string().optional(),
+            pay_via: z.number().optional(),
+            remarks: z.string().optional()
+        }),
+        handler: async (parsed) => {
+            const [result] = await pool.execute(
+                `INSERT INTO fee_payment_history 
+                (allocation_id, type_id, collect_by, remarks, amount, discount, fine, date, pay_via) 
+                VALUES (?, ?, 'admin', ?, ?, ?, ?, ?, ?)`,
+                [parsed.allocation_id, parsed.type_id, parsed.remarks || null, parsed.amount, parsed.discount || 0, parsed.fine || 0, parsed.date, parsed.pay_via || 1]
+            );
+            return { content: [{ type: "text", text: `Payment recorded. Payment ID: ${(result as any).insertId}` }] };
+        },
+    }),
+    defineTool({
+        name: "get_student_fee_status",
+        module: "student_accounting",
+        description: "Check balance and payment status for a student",
+        schema: z.object({
+            student_id: z.number(),
+            session_id: z.number().optional().describe("Academic session ID (defaults to the active session)")
+        }),
+        handler: async ({ student_id, session_id }) => {
+            const sessionId = await resolveSessionId(session_id);
+            // Basic status: Total allocated, Total paid, Balance
+            const query = `
+                SELECT 
+                    SUM(gd.amount + fa.prev_due) as total_allocated,
+                    (SELECT SUM(amount + discount) FROM fee_payment_history h JOIN fee_allocation a ON h.allocation_id = a.id WHERE a.student_id = fa.student_id AND a.session_id = ?) as total_paid_with_discount,
+                    (SELECT SUM(amount) FROM fee_payment_history h JOIN fee_allocation a ON h.allocation_id = a.id WHERE a.student_id = fa.student_id AND a.session_id = ?) as total_paid_only
+                FROM fee_allocation fa
+                LEFT JOIN fee_groups_details gd ON fa.group_id = gd.fee_groups_id
+                WHERE fa.student_id = ? AND fa.session_id = ?
+            `;
+            const [rows] = await pool.execute(query, [sessionId, sessionId, student_id, sessionId]);
+            const status = (rows as any)[0];
+            const balance = (status.total_allocated || 0) - (status.total_paid_with_discount || 0);
+            return { content: [{ type: "text", text: JSON.stringify({ ...status, balance }, null, 2) }] };
+        },
+    }),
+    defineTool({
+        name: "get_fee_payment_history",
+        module: "student_accounting",
+        description: "List all payment records for a specific fee allocation",
+        schema: z.object({
+            allocation_id: z.number(),
+            ...formatArgs
+        }),
+        handler: async ({ allocation_id, ...format }) => {
+            const [rows] = await pool.execute("SELECT * FROM fee_payment_history WHERE allocation_id = ? ORDER BY date DESC", [allocation_id]);
+            return { content: renderRows(rows, format) };
+        },
+    }),
+    defineTool({
+        name: "update_fee_payment",
+        module: "student_accounting",
+        description: "Edit an existing fee payment record",
+        schema: z.object({
+            id: z.number(),
+            amount: z.number().optional(),
+            discount: z.number().optional(),
+            fine: z.number().optional(),
+            date: z.string().optional(),
+            remarks: z.string().optional()
+        }),
+        handler: async (parsed) => {
+            const updates: string[] = [];
+            const values: any[] = [];
+            if (parsed.amount !== undefined) { updates.push("amount = ?"); values.push(parsed.amount); }
+            if (parsed.discount !== undefined) { updates.push("discount = ?"); values.push(parsed.discount); }
+            if (parsed.fine !== undefined) { updates.push("fine = ?"); values.push(parsed.fine); }
+            if (parsed.date) { updates.push("date = ?"); values.push(parsed.date); }
+            if (parsed.remarks) { updates.push("remarks = ?"); values.push(parsed.remarks); }
+
+            if (updates.length > 0) {
+                values.push(parsed.id);
+                await pool.execute(`UPDATE fee_payment_history SET ${updates.join(", ")} WHERE id = ?`, values);
+                return { content: [{ type: "text", text: `Payment record ${parsed.id} updated.` }] };
+            }
+            return { content: [{ type: "text", text: "No updates provided." }] };
+        },
+    }),
+    defineTool({
+        name: "bulk_collect_fees",
+        module: "student_accounting",
+        description: "Record payments for multiple students/allocations at once",
+        schema: z.object({
+            payments: z.array(z.object({
+                allocation_id: z.number(),
+                type_id: z.number(),
+                amount: z.number(),
+                date: z.string()
+            })),
+            branch_id: z.number().optional()
+        }),
+        handler: async (parsed) => {
+            if (parsed.payments.length === 0) {
+                return { content: [{ type: "text", text: "No payments provided." }] };
+            }
+            // All payments are recorded together or not at all
+            const results = await pool.batch(parsed.payments.map((p) => ({
+                sql: "INSERT INTO fee_payment_history (allocation_id, type_id, collect_by, amount, date) VALUES (?, ?, 'admin', ?, ?)",
+                params: [p.allocation_id, p.type_id, p.amount, p.date]
+            })));
+            return { content: [{ type: "text", text: `Bulk payments recorded. Total: ${results.length} payments.` }] };
+        },
+    }),
+    defineTool({
+        name: "update_fee_allocation",
+        module: "student_accounting",
+        description: "Update fee allocation details (e.g. previous due)",
+        schema: z.object({
+            id: z.number(),
+            prev_due: z.number()
+        }),
+        handler: async (parsed) => {
+            await pool.execute("UPDATE fee_allocation SET prev_due = ? WHERE id = ?", [parsed.prev_due, parsed.id]);
+            return { content: [{ type: "text", text: `Fee allocation ${parsed.id} updated.` }] };
+        },
+    }),
+    defineTool({
+        name: "list_payment_methods",
+        module: "student_accounting",
+        description: "List available payment methods",
+        schema: z.object({
+            branch_id: z.number().optional(),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            const branch_id = parsed.branch_id || 1;
+            const page = await paginate("SELECT * FROM payment_types WHERE branch_id = ?", [branch_id], [["id", "ASC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "set_fee_status",
+        module: "student_accounting",
+        description: "Set fee status to Paid (by recording full payment) or Unpaid",
+        schema: z.object({
+            student_id: z.number(),
+            status: z.enum(["Paid", "Unpaid"]),
+            date: z.string().optional().describe("Date for payment if setting to Paid"),
+            session_id: z.number().optional().describe("Academic session ID (defaults to the active session)")
+        }),
+        handler: async (parsed) => {
+            const sessionId = await resolveSessionId(parsed.session_id);
+
+            if (parsed.status === "Paid") {
+                // 1. Get total allocated for student
+                const [allocs] = await pool.execute(`
+                    SELECT fa.id as allocation_id, gd.fee_type_id, (gd.amount + fa.prev_due) as total_due
+                    FROM fee_allocation fa
+                    JOIN fee_groups_details gd ON fa.group_id = gd.fee_groups_id
+                    WHERE fa.student_id = ? AND fa.session_id = ?
+                `, [parsed.student_id, sessionId]);
+
+                const paymentDate = parsed.date || today();
+                const statements: Statement[] = [];
+
+                for (const row of (allocs as any[])) {
+                    // 2. Check current paid for this allocation/type
+                    const [history] = await pool.execute(`
+                        SELECT SUM(amount + discount) as paid 
+                        FROM fee_payment_history 
+                        WHERE allocation_id = ? AND type_id = ?
+                    `, [row.allocation_id, row.fee_type_id]);
+
+                    const paid = (history as any)[0].paid || 0;
+                    const remaining = row.total_due - paid;
+
+                    if (remaining > 0) {
+                        statements.push({
+                            sql: "INSERT INTO fee_payment_history (allocation_id, type_id, collect_by, amount, date) VALUES (?, ?, 'admin', ?, ?)",
+                            params: [row.allocation_id, row.fee_type_id, remaining, paymentDate]
+                        });
+                    }
+                }
+
+                // 3. Record every clearing payment as one unit
+                if (statements.length > 0) {
+                    await pool.batch(statements);
+                }
+                return { content: [{ type: "text", text: `Status set to Paid. Recorded ${statements.length} payment entries to clear balance.` }] };
+            } else {
+                // status === "Unpaid" -> Simple approach: delete all payments for student in current session
+                await pool.execute(`
+                    DELETE h FROM fee_payment_history h
+                    JOIN fee_allocation fa ON h.allocation_id = fa.id
+                    WHERE fa.student_id = ? AND fa.session_id = ?
+                `, [parsed.student_id, sessionId]);
+                return { content: [{ type: "text", text: "Status set to Unpaid. All payment records for current session have been removed." }] };
+            }
+        },
+    }),
+    defineTool({
+        name: "list_pending_fees",
+        module: "student_accounting",
+        description: "List all students with unpaid fee balances",
+        schema: z.object({
+            branch_id: z.number().optional(),
+            class_id: z.number().optional(),
+            session_id: z.number().optional().describe("Academic session ID (defaults to the active session)"),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            const sessionId = await resolveSessionId(parsed.session_id);
+
+            let query = `
+                SELECT 
+                    s.id as student_id, s.first_name, s.last_name, s.register_no,
+                    c.name as class_name, se.name as section_name,
+                    COALESCE(SUM(gd.amount), 0) + COALESCE(MAX(fa.prev_due), 0) as total_allocated,
+                    COALESCE((
+                        SELECT SUM(h.amount + h.discount) 
+                        FROM fee_payment_history h 
+                        JOIN fee_allocation a ON h.allocation_id = a.id 
+                        WHERE a.student_id = s.id AND a.session_id = ?
+                    ), 0) as total_paid
+                FROM student s
+                JOIN enroll e ON s.id = e.student_id
+                JOIN class c ON e.class_id = c.id
+                JOIN section se ON e.section_id = se.id
+                LEFT JOIN fee_allocation fa ON s.id = fa.student_id AND e.session_id = fa.session_id
+                LEFT JOIN fee_groups_details gd ON fa.group_id = gd.fee_groups_id
+                WHERE e.session_id = ?
+            `;
+
+            const params: any[] = [sessionId, sessionId];
+            if (parsed.branch_id) {
+                query += " AND e.branch_id = ?";
+                params.push(parsed.branch_id);
+            }
+            if (parsed.class_id) {
+                query += " AND e.class_id = ?";
+                params.push(parsed.class_id);
+            }
+
+            query += " GROUP BY s.id HAVING (total_allocated - total_paid) > 0";
+
+            const page = await paginate(query, params, [["student_id", "ASC"]], parsed);
+            const items = page.items.map(r => ({
+                ...r,
+                balance: r.total_allocated - r.total_paid
+            }));
+
+            return { content: renderPage({ ...page, items }, parsed) };
+        },
+    }),
+];
@@ -0,0 +1,383 @@
+import { z } from "zod";
+import { pool } from "../db";
+import { pageArgs, paginate } from "../pagination";
+import { formatArgs, renderPage, renderRows } from "../formatting";
+import { defineTool, ToolDefinition } from "./registry";
+
+// Staff attendance, leave and salary
+export const hrTools: ToolDefinition[] = [
+    defineTool({
+        name: "mark_staff_attendance",
+        module: "attendance",
+        description: "Mark attendance for staff member",
+        schema: z.object({
+            staff_id: z.number(),
+            date: z.string().describe("Date in YYYY-MM-DD format"),
+            status: z.enum(["present", "absent", "late", "half_day"]).describe("Attendance status"),
+            remarks: z.string().optional()
+        }),
+        handler: async (parsed) => {
+            await pool.execute(
+                `INSERT INTO staff_attendance (staff_id, date, status, remark) 
+     VALUES (?, ?, ?, ?)
+     ON DUPLICATE KEY UPDATE status = ?, remark = ?`,
+                [parsed.staff_id, parsed.date, parsed.status, parsed.remarks || '', parsed.status, parsed.remarks || '']
+            );
+            return { content: [{ type: "text", text: `Staff attendance marked for ${parsed.date}` }] };
+        },
+    }),
+    defineTool({
+        name: "get_staff_attendance",
+        module: "attendance",
+        description: "Get attendance history for a staff member",
+        schema: z.object({
+            staff_id: z.number(),
+            start_date: z.string().optional(),
+            end_date: z.string().optional(),
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            let query = `SELECT sa.*, s.name as staff_name 
+             FROM staff_attendance sa
+             LEFT JOIN staff s ON sa.staff_id = s.id
+             WHERE sa.staff_id = ?`;
+            const params: any[] = [parsed.staff_id];
+
+            if (parsed.start_date) {
+                query += " AND sa.date >= ?";
+                params.push(parsed.start_date);
+            }
+            if (parsed.end_date) {
+                query += " AND sa.date <= ?";
+                params.push(parsed.end_date);
+            }
+
+            query += " ORDER BY sa.date DESC";
+
+            const [rows] = await pool.execute(query, params);
+            return { content: renderRows(rows, parsed) };
+        },
+    }),
+    defineTool({
+        name: "list_staff_attendance_report",
+        module: "attendance",
+        description: "Get attendance report for all staff on a specific date or date range",
+        schema: z.object({
+            date: z.string().describe("Specific date or start date"),
+            end_date: z.string().optional().describe("Optional end date for range"),
+            department_id: z.number().optional(),
+            branch_id: z.number().optional(),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            let query = `SELECT sa.*, s.name as staff_name, s.designation, s.department
+             FROM staff_attendance sa
+             LEFT JOIN staff s ON sa.staff_id = s.id
+             WHERE sa.date >= ?`;
+            const params: any[] = [parsed.date];
+
+            if (parsed.end_date) {
+                query += " AND sa.date <= ?";
+                params.push(parsed.end_date);
+            }
+            if (parsed.department_id) {
+                query += " AND s.department = ?";
+                params.push(parsed.department_id);
+            }
+            if (parsed.branch_id) {
+                query += " AND s.branch_id = ?";
+                params.push(parsed.branch_id);
+            }
+
+            const page = await paginate(query, params, [["date", "DESC"], ["staff_name", "ASC"], ["id", "ASC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "create_staff_leave",
+        module: "human_resource",
+        description: "Create a leave application for staff",
+        schema: z.object({
+            staff_id: z.number(),
+            leave_category_id: z.number(),
+            start_date: z.string(),
+            end_date: z.string(),
+            reason: z.string(),
+            branch_id: z.number().optional()
+        }),
+        handler: async (parsed) => {
+            const branch_id = parsed.branch_id || 1;
+
+            const [result] = await pool.execute(
+                `INSERT INTO staff_leave (staff_id, leave_category_id, leave_from, leave_to, reason, branch_id) 
+     VALUES (?, ?, ?, ?, ?, ?)`,
+                [parsed.staff_id, parsed.leave_category_id, parsed.start_date, parsed.end_date, parsed.reason, branch_id]
+            );
+            return { content: [{ type: "text", text: `Staff leave application created. ID: ${(result as any).insertId}` }] };
+        },
+    }),
+    defineTool({
+        name: "list_staff_leaves",
+        module: "human_resource",
+        description: "List staff leave applications with optional filters",
+        schema: z.object({
+            staff_id: z.number().optional(),
+            status: z.enum(["pending", "approved", "rejected"]).optional(),
+            start_date: z.string().optional(),
+            end_date: z.string().optional(),
+            branch_id: z.number().optional(),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            let query = `SELECT sl.*, lc.name as leave_type, s.name as staff_name
+             FROM staff_leave sl
+             LEFT JOIN leave_category lc ON sl.leave_category_id = lc.id
+             LEFT JOIN staff s ON sl.staff_id = s.id
+             WHERE 1=1`;
+            const params: any[] = [];
+
+            if (parsed.staff_id) {
+                query += " AND sl.staff_id = ?";
+                params.push(parsed.staff_id);
+            }
+            if (parsed.status) {
+                query += " AND sl.status = ?";
+                params.push(parsed.status);
+            }
+            if (parsed.start_date) {
+                query += " AND sl.leave_from >= ?";
+                params.push(parsed.start_date);
+            }
+            if (parsed.end_date) {
+                query += " AND sl.leave_to <= ?";
+                params.push(parsed.end_date);
+            }
+            if (parsed.branch_id) {
+                query += " AND sl.branch_id = ?";
+                params.push(parsed.branch_id);
+            }
+
+            const page = await paginate(query, params, [["application_date", "DESC"], ["id", "DESC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "approve_staff_leave",
+        module: "human_resource",
+        description: "Approve or reject a staff leave application",
+        schema: z.object({
+            leave_id: z.number(),
+            status: z.enum(["approved", "rejected"]),
+            remarks: z.string().optional()
+        }),
+        handler: async (parsed) => {
+            await pool.execute(
+                "UPDATE staff_leave SET status = ?, approved_by = ?, approved_date = NOW(), remarks = ? WHERE id = ?",
+                [parsed.status, 1, parsed.remarks || '', parsed.leave_id]
+            );
+            return { content: [{ type: "text", text: `Leave application ${parsed.status}` }] };
+        },
+    }),
+    defineTool({
+        name: "get_staff_leave_balance",
+        module: "human_resource",
+        description: "Get leave balance for a staff member",
+        schema: z.object({
+            staff_id: z.number(),
+            leave_category_id: z.number().optional()
+        }),
+        handler: async (parsed) => {
+            let query = `SELECT lc.id, lc.name, lc.days as total_days,
+             COALESCE((SELECT SUM(DATEDIFF(leave_to, leave_from) + 1) 
+                       FROM staff_leave sl 
+                       WHERE sl.leave_category_id = lc.id 
+                       AND sl.staff_id = ? 
+                       AND sl.status = 'approved'
+                       AND YEAR(sl.leave_from) = YEAR(NOW())), 0) as days_used
+             FROM leave_category lc
+             WHERE 1=1`;
+            const params: any[] = [parsed.staff_id];
+
+            if (parsed.leave_category_id) {
+                query += " AND lc.id = ?";
+                params.push(parsed.leave_category_id);
+            }
+
+            const [rows] = await pool.execute(query, params) as any;
+            const balance = rows.map((r: any) => ({
+                ...r,
+                available: r.total_days - r.days_used
+            }));
+            return { content: [{ type: "text", text: JSON.stringify(balance, null, 2) }] };
+        },
+    }),
+    defineTool({
+        name: "create_student_leave",
+        module: "human_resource",
+        description: "Create a leave application for student",
+        schema: z.object({
+            student_id: z.number(),
+            start_date: z.string(),
+            end_date: z.string(),
+            reason: z.string(),
+            branch_id: z.number().optional()
+        }),
+        handler: async (parsed) => {
+            const branch_id = parsed.branch_id || 1;
+
+            const [result] = await pool.execute(
+                `INSERT INTO student_leave (student_id, leave_from, leave_to, reason, branch_id) 
+     VALUES (?, ?, ?, ?, ?)`,
+                [parsed.student_id, parsed.start_date, parsed.end_date, parsed.reason, branch_id]
+            );
+            return { content: [{ type: "text", text: `Student leave application created. ID: ${(result as any).insertId}` }] };
+        },
+    }),
+    defineTool({
+        name: "list_student_leaves",
+        module: "human_resource",
+        description: "List student leave applications",
+        schema: z.object({
+            student_id: z.number().optional(),
+            class_id: z.number().optional(),
+            status: z.enum(["pending", "approved", "rejected"]).optional(),
+            start_date: z.string().optional(),
+            end_date: z.string().optional(),
+            branch_id: z.number().optional(),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            let query = `SELECT sl.*, s.name as student_name, s.register_no, c.classes as class_name
+             FROM student_leave sl
+             LEFT JOIN student s ON sl.student_id = s.id
+             LEFT JOIN classes c ON s.class = c.id
+             WHERE 1=1`;
+            const params: any[] = [];
+
+            if (parsed.student_id) {
+                query += " AND sl.student_id = ?";
+                params.push(parsed.student_id);
+            }
+            if (parsed.class_id) {
+                query += " AND s.class = ?";
+                params.push(parsed.class_id);
+            }
+            if (parsed.status) {
+                query += " AND sl.status = ?";
+                params.push(parsed.status);
+            }
+            if (parsed.start_date) {
+                query += " AND sl.leave_from >= ?";
+                params.push(parsed.start_date);
+            }
+            if (parsed.end_date) {
+                query += " AND sl.leave_to <= ?";
+                params.push(parsed.end_date);
+            }
+            if (parsed.branch_id) {
+                query += " AND sl.branch_id = ?";
+                params.push(parsed.branch_id);
+            }
+
+            const page = await paginate(query, params, [["application_date", "DESC"], ["id", "DESC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "approve_student_leave",
+        module: "human_resource",
+        description: "Approve or reject a student leave application",
+        schema: z.object({
+            leave_id: z.number(),
+            status: z.enum(["approved", "rejected"]),
+            remarks: z.string().optional()
+        }),
+        handler: async (parsed) => {
+            await pool.execute(
+                "UPDATE student_leave SET status = ?, approved_by = ?, approved_date = NOW(), remarks = ? WHERE id = ?",
+                [parsed.status, 1, parsed.remarks || '', parsed.leave_id]
+            );
+            return { content: [{ type: "text", text: `Student leave application ${parsed.status}` }] };
+        },
+    }),
+    defineTool({
+        name: "list_leave_categories",
+        module: "human_resource",
+        description: "List all leave categories/types",
+        schema: z.object({
+            branch_id: z.number().optional(),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            let query = "SELECT id, name, days as total_days, role_id, branch_id FROM leave_category WHERE 1=1";
+            const params: any[] = [];
+
+            if (parsed.branch_id) {
+                query += " AND branch_id = ?";
+                params.push(parsed.branch_id);
+            }
+
+            const page = await paginate(query, params, [["name", "ASC"], ["id", "ASC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "create_leave_category",
+        module: "human_resource",
+        description: "Create a new leave category",
+        schema: z.object({
+            name: z.string(),
+            total_days: z.number(),
+            branch_id: z.number().optional()
+        }),
+        handler: async (parsed) => {
+            const branch_id = parsed.branch_id || 1;
+
+            const [result] = await pool.execute(
+                "INSERT INTO leave_category (name, days, branch_id) VALUES (?, ?, ?)",
+                [parsed.name, parsed.total_days, branch_id]
+            );
+            return { content: [{ type: "text", text: `Leave category created. ID: ${(result as any).insertId}` }] };
+        },
+    }),
+    defineTool({
+        name: "list_salary_templates",
+        module: "human_resource",
+        description: "List all available salary templates",
+        schema: z.object({
+            branch_id: z.number().optional(),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            let query = "SELECT id, name, basic_salary, total_salary FROM salary_template WHERE 1=1";
+            const params: any[] = [];
+            if (parsed.branch_id) {
+                query += " AND branch_id = ?";
+                params.push(parsed.branch_id);
+            }
+            const page = await paginate(query, params, [["id", "ASC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "assign_staff_salary",
+        module: "human_resource",
+        description: "Assign a salary template to a staff member",
+        schema: z.object({
+            staff_id: z.number(),
+            salary_template_id: z.number()
+        }),
+        handler: async (parsed) => {
+            await pool.execute(
+                "UPDATE staff SET salary_template_id = ? WHERE id = ?",
+                [parsed.salary_template_id, parsed.staff_id]
+            );
+            return { content: [{ type: "text", text: `Salary template ${parsed.salary_template_id} assigned to staff ID ${parsed.staff_id}` }] };
+        },
+    }),
+];
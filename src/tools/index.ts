@@ -0,0 +1,42 @@
+import { ToolDefinition } from "./registry";
+import { inquiryTools } from "./inquiries";
+import { receptionTools } from "./reception";
+import { accountingTools } from "./accounting";
+import { inventoryTools } from "./inventory";
+import { hrTools } from "./hr";
+import { feeTools } from "./fees";
+import { examTools } from "./exams";
+import { timetableTools } from "./timetable";
+import { schoolYearTools } from "./school-year";
+import { studentTools } from "./students";
+import { onlineAdmissionTools } from "./online-admissions";
+import { parentTools } from "./parents";
+import { duplicateTools } from "./duplicates";
+import { staffTools } from "./staff";
+import { auditTools } from "./audit";
+import { databaseTools } from "./database";
+
+// Order is the order tools/list advertises them in
+export const tools: ToolDefinition[] = [
+    ...inquiryTools,
+    ...receptionTools,
+    ...accountingTools,
+    ...inventoryTools,
+    ...hrTools,
+    ...feeTools,
+    ...examTools,
+    ...timetableTools,
+    ...schoolYearTools,
+    ...studentTools,
+    ...onlineAdmissionTools,
+    ...parentTools,
+    ...duplicateTools,
+    ...staffTools,
+    ...auditTools,
+    ...databaseTools,
+];
+
+export const toolsByName = new Map(tools.map((tool) => [tool.name, tool]));
+
+export { toJsonSchema } from "./registry";
+export type { ToolDefinition, ToolResult } from "./registry";
@@ -0,0 +1,532 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types";
+import { z } from "zod";
+import { insertIdOf, pool } from "../db";
+import { resolveIdentity } from "../identity";
+import { resolveSessionId } from "../school-year";
+import { admissionStatements, ensureAdmissionTable, findAdmission, findParentByMobile, splitName } from "../admissions";
+import { duplicateWarning } from "../duplicates";
+import { dueFollowUpsQuery } from "../follow-ups";
+import { today } from "../dates";
+import { pageArgs, paginate } from "../pagination";
+import { formatArgs, renderPage, renderRows } from "../formatting";
+import { defineTool, ToolDefinition } from "./registry";
+
+// Inquiries with their class, source (enquiry_reference) and status (enquiry_response) names
+const INQUIRY_JOINS = `FROM enquiry e 
+                         LEFT JOIN class c ON e.class_id = c.id 
+                         LEFT JOIN enquiry_reference er ON e.reference_id = er.id 
+                         LEFT JOIN enquiry_response resp ON e.response = resp.id`;
+
+interface FunnelInquiry {
+    followed_up: number;
+    status: string | null;
+    student_id: number | null;
+    days_to_conversion: number | null;
+}
+
+const median = (values: number[]): number | null => {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Funnel counts for one group of inquiries. An inquiry counts as converted when it was admitted
+// through convert_inquiry_to_admission or its status was set to converted by hand.
+const funnelStage = (inquiries: FunnelInquiry[]) => {
+    const converted = inquiries.filter((inquiry) => inquiry.student_id !== null || inquiry.status === "converted");
+    return {
+        inquiries: inquiries.length,
+        followed_up: inquiries.filter((inquiry) => Number(inquiry.followed_up) > 0).length,
+        converted: converted.length,
+        dead: inquiries.filter((inquiry) => inquiry.status === "dead").length,
+        conversion_percentage: inquiries.length > 0 ? Math.round((converted.length / inquiries.length) * 1000) / 10 : 0,
+        median_days_to_conversion: median(converted.flatMap((inquiry) => (inquiry.days_to_conversion === null ? [] : [Number(inquiry.days_to_conversion)]))),
+    };
+};
+
+// One row per distinct key, best-converting first
+const funnelBreakdown = <T extends FunnelInquiry>(inquiries: T[], key: (inquiry: T) => Record<string, unknown>) => {
+    const groups = new Map<string, { key: Record<string, unknown>; inquiries: T[] }>();
+    for (const inquiry of inquiries) {
+        const groupKey = key(inquiry);
+        const id = JSON.stringify(groupKey);
+        const group = groups.get(id) || { key: groupKey, inquiries: [] };
+        group.inquiries.push(inquiry);
+        groups.set(id, group);
+    }
+    return [...groups.values()]
+        .map((group) => ({ ...group.key, ...funnelStage(group.inquiries) }))
+        .sort((a, b) => b.converted - a.converted || b.inquiries - a.inquiries);
+};
+
+// Admission inquiries and their follow-ups
+export const inquiryTools: ToolDefinition[] = [
+    defineTool({
+        name: "create_inquiry",
+        module: "reception",
+        description: "Create a new admission inquiry",
+        schema: z.object({
+            name: z.string().describe("Name of the student/enquirer"),
+            mobile_no: z.string().describe("Mobile number"),
+            date: z.string().describe("Date of inquiry (YYYY-MM-DD)"),
+            father_name: z.string().optional().describe("Father's name"),
+            mother_name: z.string().optional().describe("Mother's name"),
+            email: z.string().optional().describe("Email address"),
+            address: z.string().optional().describe("Address"),
+            note: z.string().optional().describe("Additional notes"),
+            response: z.string().optional().describe("Response given"),
+            class_id: z.number().optional().describe("Class ID interested in"),
+            source: z.string().optional().describe("Source of inquiry"),
+            status: z.string().optional().describe("Status of inquiry (e.g. active, converted, dead)"),
+            branch_id: z.number().optional()
+        }),
+        handler: async (parsed) => {
+            const warning = await duplicateWarning("inquiry", { name: parsed.name, mobile: parsed.mobile_no, email: parsed.email }, parsed.branch_id || 1);
+            const { userId } = await resolveIdentity();
+            const [result] = await pool.execute(
+                `INSERT INTO enquiry 
+      (name, mobile_no, date, father_name, mother_name, email, address, note, response, class_id, reference_id, status, branch_id, created_by, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NOW())`,
+                [
+                    parsed.name,
+                    parsed.mobile_no,
+                    parsed.date,
+                    parsed.father_name || null,
+                    parsed.mother_name || null,
+                    parsed.email || null,
+                    parsed.address || null,
+                    parsed.note || null,
+                    parsed.response || null,
+                    parsed.class_id || null,
+                    parsed.source || null,
+                    parsed.status || 'active', // Default status
+                    parsed.branch_id || 1,
+                    userId,
+                ]
+            );
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Inquiry created successfully. ID: ${(result as any).insertId}${warning}`,
+                    },
+                ],
+            };
+        },
+    }),
+    defineTool({
+        name: "bulk_delete_inquiries",
+        module: "reception",
+        description: "Delete multiple admission inquiries by ID",
+        schema: z.object({
+            ids: z.array(z.number()).describe("Array of inquiry IDs to delete")
+        }),
+        handler: async ({ ids }) => {
+            if (ids.length === 0) {
+                return { content: [{ type: "text", text: "No IDs provided for deletion." }] };
+            }
+            const placeholders = ids.map(() => '?').join(',');
+            const [, result] = await pool.batch([
+                { sql: `DELETE FROM enquiry_follow_up WHERE enquiry_id IN (${placeholders})`, params: ids },
+                { sql: `DELETE FROM enquiry WHERE id IN (${placeholders})`, params: ids },
+            ]);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `${(result as any).affectedRows} inquiries deleted successfully.`,
+                    },
+                ],
+            };
+        },
+    }),
+    defineTool({
+        name: "list_inquiry_sources",
+        module: "reception",
+        description: "List all inquiry sources (references)",
+        schema: z.object({
+            branch_id: z.number().optional(),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            const page = await paginate("SELECT * FROM enquiry_reference WHERE branch_id = ?", [parsed.branch_id || 1], [["id", "ASC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "list_inquiry_statuses",
+        module: "reception",
+        description: "List all inquiry statuses (responses)",
+        schema: z.object({
+            branch_id: z.number().optional(),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            const page = await paginate("SELECT * FROM enquiry_response WHERE branch_id = ?", [parsed.branch_id || 1], [["id", "ASC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "read_inquiry",
+        module: "reception",
+        description: "Get details of an admission inquiry by ID",
+        schema: z.object({
+            id: z.number()
+        }),
+        handler: async ({ id }) => {
+            const [rows] = await pool.execute("SELECT * FROM enquiry WHERE id = ?", [id]);
+            const inquiries = rows as any[];
+
+            if (inquiries.length === 0) {
+                throw new McpError(ErrorCode.InvalidRequest, `Inquiry with ID ${id} not found`);
+            }
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: JSON.stringify(inquiries[0], null, 2),
+                    },
+                ],
+            };
+        },
+    }),
+    defineTool({
+        name: "update_inquiry",
+        module: "reception",
+        description: "Update an existing admission inquiry",
+        schema: z.object({
+            id: z.number(),
+            name: z.string().optional(),
+            mobile_no: z.string().optional(),
+            father_name: z.string().optional(),
+            mother_name: z.string().optional(),
+            email: z.string().optional(),
+            address: z.string().optional(),
+            response: z.string().optional(),
+            note: z.string().optional(),
+            status: z.string().optional().describe("Status of inquiry (e.g. active, converted, dead)")
+        }),
+        handler: async (parsed) => {
+            const updates: string[] = [];
+            const values: any[] = [];
+
+            if (parsed.name) { updates.push("name = ?"); values.push(parsed.name); }
+            if (parsed.mobile_no) { updates.push("mobile_no = ?"); values.push(parsed.mobile_no); }
+            if (parsed.father_name) { updates.push("father_name = ?"); values.push(parsed.father_name); }
+            if (parsed.mother_name) { updates.push("mother_name = ?"); values.push(parsed.mother_name); }
+            if (parsed.email) { updates.push("email = ?"); values.push(parsed.email); }
+            if (parsed.address) { updates.push("address = ?"); values.push(parsed.address); }
+            if (parsed.response) { updates.push("response = ?"); values.push(parsed.response); }
+            if (parsed.note) { updates.push("note = ?"); values.push(parsed.note); }
+            if (parsed.status) { updates.push("status = ?"); values.push(parsed.status); }
+
+            updates.push("updated_at = NOW()");
+
+            if (updates.length <= 1) { // Only updated_at
+                return { content: [{ type: "text", text: "No fields to update provided." }] };
+            }
+
+            values.push(parsed.id);
+
+            const [result] = await pool.execute(
+                `UPDATE enquiry SET ${updates.join(", ")} WHERE id = ?`,
+                values
+            );
+
+            if ((result as any).affectedRows === 0) {
+                throw new McpError(ErrorCode.InvalidRequest, `Inquiry with ID ${parsed.id} not found`);
+            }
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Inquiry ${parsed.id} updated successfully.`,
+                    },
+                ],
+            };
+        },
+    }),
+    defineTool({
+        name: "delete_inquiry",
+        module: "reception",
+        description: "Delete an admission inquiry",
+        schema: z.object({
+            id: z.number()
+        }),
+        handler: async ({ id }) => {
+            const [, result] = await pool.batch([
+                { sql: "DELETE FROM enquiry_follow_up WHERE enquiry_id = ?", params: [id] },
+                { sql: "DELETE FROM enquiry WHERE id = ?", params: [id] },
+            ]);
+            if ((result as any).affectedRows === 0) {
+                throw new McpError(ErrorCode.InvalidRequest, `Inquiry with ID ${id} not found`);
+            }
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Inquiry ${id} deleted successfully.`,
+                    },
+                ],
+            };
+        },
+    }),
+    defineTool({
+        name: "list_inquiries",
+        module: "reception",
+        description: "List admission inquiries with filters",
+        schema: z.object({
+            branch_id: z.number().optional(),
+            search: z.string().optional(),
+            status: z.string().optional(),
+            source_id: z.number().optional(),
+            class_id: z.number().optional(),
+            start_date: z.string().optional().describe("YYYY-MM-DD"),
+            end_date: z.string().optional().describe("YYYY-MM-DD"),
+            created_by: z.number().optional(),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            let query = `SELECT e.*, c.name as class_name, er.name as source_name, resp.name as status_name 
+                         ${INQUIRY_JOINS}
+                         WHERE 1=1`;
+            const params: any[] = [];
+
+            if (parsed.branch_id) {
+                query += " AND e.branch_id = ?";
+                params.push(parsed.branch_id);
+            }
+            if (parsed.search) {
+                query += " AND (e.name LIKE ? OR e.mobile_no LIKE ? OR e.father_name LIKE ?)";
+                params.push(`%${parsed.search}%`, `%${parsed.search}%`, `%${parsed.search}%`);
+            }
+            if (parsed.status) {
+                query += " AND e.status = ?";
+                params.push(parsed.status);
+            }
+            if (parsed.source_id) {
+                query += " AND e.reference_id = ?";
+                params.push(parsed.source_id);
+            }
+            if (parsed.class_id) {
+                query += " AND e.class_id = ?";
+                params.push(parsed.class_id);
+            }
+            if (parsed.start_date) {
+                query += " AND e.date >= ?";
+                params.push(parsed.start_date);
+            }
+            if (parsed.end_date) {
+                query += " AND e.date <= ?";
+                params.push(parsed.end_date);
+            }
+            if (parsed.created_by) {
+                query += " AND e.created_by = ?";
+                params.push(parsed.created_by);
+            }
+
+            const page = await paginate(query, params, [["date", "DESC"], ["id", "DESC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "create_inquiry_follow_up",
+        module: "reception",
+        description: "Add a follow-up to an inquiry",
+        schema: z.object({
+            enquiry_id: z.number(),
+            date: z.string().describe("YYYY-MM-DD"),
+            next_date: z.string().optional().describe("YYYY-MM-DD"),
+            response: z.string().optional(),
+            note: z.string().optional(),
+            status: z.string().optional().describe("1: Active, 4: Closed, etc.")
+        }),
+        handler: async (parsed) => {
+            const [result] = await pool.execute(
+                `INSERT INTO enquiry_follow_up 
+                 (enquiry_id, date, next_date, response, note, status, created_at)
+                 VALUES (?, ?, ?, ?, ?, ?, NOW())`,
+                [
+                    parsed.enquiry_id,
+                    parsed.date,
+                    parsed.next_date || null,
+                    parsed.response || null,
+                    parsed.note || null,
+                    parsed.status || null,
+                ]
+            );
+
+            return { content: [{ type: "text", text: `Follow-up created. ID: ${(result as any).insertId}` }] };
+        },
+    }),
+    defineTool({
+        name: "list_inquiry_follow_ups",
+        module: "reception",
+        description: "List follow-ups for a specific inquiry",
+        schema: z.object({
+            enquiry_id: z.number(),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            const page = await paginate("SELECT * FROM enquiry_follow_up WHERE enquiry_id = ?", [parsed.enquiry_id], [["date", "DESC"], ["id", "DESC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "list_due_follow_ups",
+        module: "reception",
+        description: "Call-back queue: open inquiries whose latest follow-up's next date is today or overdue, ordered by the staff member who took the inquiry, with days overdue and the last response",
+        schema: z.object({
+            branch_id: z.number().optional(),
+            created_by: z.number().optional().describe("Only this staff member's inquiries"),
+            as_of: z.string().optional().describe("YYYY-MM-DD (defaults to today)"),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            const { query, params } = dueFollowUpsQuery(parsed.as_of || today(), parsed);
+            const page = await paginate(query, params, [["staff_name", "ASC"], ["staff_id", "ASC"], ["next_date", "ASC"], ["enquiry_id", "ASC"]], parsed);
+            page.items = page.items.map((item) => ({ ...item, days_overdue: Number(item.days_overdue) }));
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "convert_inquiry_to_admission",
+        module: "student",
+        description: "Admit the student of an admission inquiry: creates (or links) the parent, creates the student and enrollment from the inquiry's details, and marks the inquiry converted",
+        schema: z.object({
+            enquiry_id: z.number().describe("Inquiry to convert"),
+            section_id: z.number(),
+            register_no: z.string(),
+            admission_date: z.string().describe("YYYY-MM-DD"),
+            class_id: z.number().optional().describe("Class to enroll in (defaults to the class on the inquiry)"),
+            parent_id: z.number().optional().describe("Existing parent to link (defaults to a parent in the branch with the inquiry's mobile number, else a new one)"),
+            first_name: z.string().optional().describe("Defaults to the inquiry name without its last word"),
+            last_name: z.string().optional().describe("Defaults to the last word of the inquiry name"),
+            gender: z.string().optional(),
+            birthday: z.string().optional().describe("YYYY-MM-DD"),
+            roll: z.number().optional(),
+            session_id: z.number().optional().describe("Academic session ID (defaults to the active session)"),
+            branch_id: z.number().optional()
+        }),
+        handler: async (parsed) => {
+            const [rows] = await pool.execute("SELECT * FROM enquiry WHERE id = ?", [parsed.enquiry_id]);
+            const inquiry = (rows as any[])[0];
+            if (!inquiry) {
+                throw new McpError(ErrorCode.InvalidRequest, `Inquiry with ID ${parsed.enquiry_id} not found`);
+            }
+
+            const existing = await findAdmission(parsed.enquiry_id);
+            if (existing) {
+                throw new McpError(ErrorCode.InvalidRequest, `Inquiry ${parsed.enquiry_id} was already converted to student ${existing.student_id}`);
+            }
+
+            const classId = parsed.class_id || Number(inquiry.class_id) || 0;
+            if (!classId) {
+                throw new McpError(ErrorCode.InvalidParams, `Inquiry ${parsed.enquiry_id} has no class; pass class_id`);
+            }
+
+            const branchId = Number(inquiry.branch_id) || parsed.branch_id || 1;
+            const mobile = inquiry.mobile_no || "";
+            const parentId = parsed.parent_id || await findParentByMobile(mobile, branchId);
+
+            const name = splitName(inquiry.name || "");
+            const sessionId = await resolveSessionId(parsed.session_id);
+            const { userId } = await resolveIdentity();
+            await ensureAdmissionTable();
+
+            const { statements, student, parentRef } = admissionStatements({
+                branchId,
+                parentId,
+                parent: {
+                    name: inquiry.father_name || inquiry.mother_name || `Guardian of ${inquiry.name}`,
+                    relation: inquiry.father_name ? "Father" : inquiry.mother_name ? "Mother" : "Guardian",
+                    father_name: inquiry.father_name || "", mother_name: inquiry.mother_name || "", mobileno: mobile,
+                    email: inquiry.email || "", address: inquiry.address || ""
+                },
+                student: {
+                    first_name: parsed.first_name || name.first_name, last_name: parsed.last_name ?? name.last_name,
+                    register_no: parsed.register_no, admission_date: parsed.admission_date, gender: parsed.gender || "male",
+                    birthday: parsed.birthday || null, mobileno: mobile, email: inquiry.email || "", current_address: inquiry.address || ""
+                },
+                enroll: { class_id: classId, section_id: parsed.section_id, roll: parsed.roll || null, session_id: sessionId },
+            });
+            statements.push(
+                {
+                    sql: "UPDATE enquiry SET status = 'converted', updated_at = NOW() WHERE id = ?",
+                    params: [parsed.enquiry_id]
+                },
+                {
+                    sql: `INSERT INTO mcp_inquiry_admission (enquiry_id, student_id, parent_id, branch_id, converted_by, converted_at)
+                VALUES (?, ?, ?, ?, ?, NOW())`,
+                    params: [parsed.enquiry_id, insertIdOf(student), parentRef, branchId, userId]
+                }
+            );
+
+            const results = await pool.batch(statements);
+            const studentId = results[student].insertId;
+            const parentNote = parentId ? `linked to existing parent ${parentId}` : `new parent ${results[0].insertId}`;
+
+            return { content: [{ type: "text", text: `Inquiry ${parsed.enquiry_id} converted. Student ID: ${studentId} (${parentNote}), enrolled in class ${classId} section ${parsed.section_id}.` }] };
+        },
+    }),
+    defineTool({
+        name: "inquiry_funnel_report",
+        module: "reception",
+        description: "Admission funnel for inquiries dated in a period: created, followed up, converted and dead, with conversion percentage and median days to conversion, broken down by source, class and counsellor",
+        schema: z.object({
+            start_date: z.string().describe("YYYY-MM-DD"),
+            end_date: z.string().describe("YYYY-MM-DD"),
+            group_by: z.enum(["source", "class", "counsellor"]).optional().describe("Return only this breakdown (default: all three; csv and markdown default to source)"),
+            branch_id: z.number().optional(),
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            await ensureAdmissionTable();
+            // Days to conversion run from the inquiry date to the admission, or to the last edit for inquiries marked converted by hand
+            let query = `SELECT e.id, e.reference_id AS source_id, er.name AS source_name, e.class_id, c.name AS class_name,
+                                e.created_by AS counsellor_id, st.name AS counsellor_name, e.status, a.student_id,
+                                EXISTS (SELECT 1 FROM enquiry_follow_up f WHERE f.enquiry_id = e.id) AS followed_up,
+                                DATEDIFF(COALESCE(a.converted_at, e.updated_at), e.date) AS days_to_conversion
+                         ${INQUIRY_JOINS}
+                         LEFT JOIN staff st ON e.created_by = st.id
+                         LEFT JOIN mcp_inquiry_admission a ON a.enquiry_id = e.id
+                         WHERE e.date BETWEEN ? AND ?`;
+            const params: any[] = [parsed.start_date, parsed.end_date];
+
+            if (parsed.branch_id) {
+                query += " AND e.branch_id = ?";
+                params.push(parsed.branch_id);
+            }
+
+            const [rows] = await pool.execute(query, params);
+            const inquiries = rows as (FunnelInquiry & Record<string, any>)[];
+            const breakdowns = {
+                by_source: () => funnelBreakdown(inquiries, (inquiry) => ({ source_id: inquiry.source_id, source: inquiry.source_name })),
+                by_class: () => funnelBreakdown(inquiries, (inquiry) => ({ class_id: inquiry.class_id, class: inquiry.class_name })),
+                by_counsellor: () => funnelBreakdown(inquiries, (inquiry) => ({ counsellor_id: inquiry.counsellor_id, counsellor: inquiry.counsellor_name })),
+            };
+
+            if (parsed.format && parsed.format !== "json") {
+                return { content: renderRows(breakdowns[`by_${parsed.group_by || "source"}`](), parsed) };
+            }
+
+            const selected = parsed.group_by ? [`by_${parsed.group_by}` as const] : (Object.keys(breakdowns) as (keyof typeof breakdowns)[]);
+            const report = {
+                start_date: parsed.start_date,
+                end_date: parsed.end_date,
+                total: funnelStage(inquiries),
+                ...Object.fromEntries(selected.map((name) => [name, breakdowns[name]()])),
+            };
+            return { content: [{ type: "text", text: JSON.stringify(report, null, 2) }] };
+        },
+    }),
+];
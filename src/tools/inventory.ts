@@ -0,0 +1,452 @@
+import { z } from "zod";
+import { insertIdOf, pool, Statement } from "../db";
+import { pageArgs, paginate } from "../pagination";
+import { formatArgs, renderPage } from "../formatting";
+import { defineTool, ToolDefinition } from "./registry";
+
+// Inventory: products, stores, suppliers, purchases and issues
+export const inventoryTools: ToolDefinition[] = [
+    defineTool({
+        name: "list_product_categories",
+        module: "inventory",
+        description: "List all product categories",
+        schema: z.object({
+            branch_id: z.number().optional(),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            let query = "SELECT * FROM product_category WHERE 1=1";
+            const params: any[] = [];
+            if (parsed.branch_id) {
+                query += " AND branch_id = ?";
+                params.push(parsed.branch_id);
+            }
+            const page = await paginate(query, params, [["name", "ASC"], ["id", "ASC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "create_product_category",
+        module: "inventory",
+        description: "Create a new product category",
+        schema: z.object({
+            name: z.string(),
+            branch_id: z.number().optional()
+        }),
+        handler: async (parsed) => {
+            const branch_id = parsed.branch_id || 1;
+            const [result] = await pool.execute(
+                "INSERT INTO product_category (name, branch_id) VALUES (?, ?)",
+                [parsed.name, branch_id]
+            );
+            return { content: [{ type: "text", text: `Product category created. ID: ${(result as any).insertId}` }] };
+        },
+    }),
+    defineTool({
+        name: "list_product_units",
+        module: "inventory",
+        description: "List all product units of measurement",
+        schema: z.object({
+            branch_id: z.number().optional(),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            let query = "SELECT * FROM product_unit WHERE 1=1";
+            const params: any[] = [];
+            if (parsed.branch_id) {
+                query += " AND branch_id = ?";
+                params.push(parsed.branch_id);
+            }
+            const page = await paginate(query, params, [["name", "ASC"], ["id", "ASC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "create_product_unit",
+        module: "inventory",
+        description: "Create a new product unit (Piece, Box, Kg, etc.)",
+        schema: z.object({
+            name: z.string(),
+            branch_id: z.number().optional()
+        }),
+        handler: async (parsed) => {
+            const branch_id = parsed.branch_id || 1;
+            const [result] = await pool.execute(
+                "INSERT INTO product_unit (name, branch_id) VALUES (?, ?)",
+                [parsed.name, branch_id]
+            );
+            return { content: [{ type: "text", text: `Product unit created. ID: ${(result as any).insertId}` }] };
+        },
+    }),
+    defineTool({
+        name: "list_product_stores",
+        module: "inventory",
+        description: "List all product stores/warehouses",
+        schema: z.object({
+            branch_id: z.number().optional(),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            let query = "SELECT * FROM product_store WHERE 1=1";
+            const params: any[] = [];
+            if (parsed.branch_id) {
+                query += " AND branch_id = ?";
+                params.push(parsed.branch_id);
+            }
+            const page = await paginate(query, params, [["name", "ASC"], ["id", "ASC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "create_product_store",
+        module: "inventory",
+        description: "Create a new product store/warehouse",
+        schema: z.object({
+            name: z.string(),
+            code: z.string(),
+            mobileno: z.string().optional(),
+            address: z.string().optional(),
+            description: z.string().optional(),
+            branch_id: z.number().optional()
+        }),
+        handler: async (parsed) => {
+            const branch_id = parsed.branch_id || 1;
+            const [result] = await pool.execute(
+                "INSERT INTO product_store (name, code, mobileno, address, description, branch_id) VALUES (?, ?, ?, ?, ?, ?)",
+                [parsed.name, parsed.code, parsed.mobileno || '', parsed.address || '', parsed.description || '', branch_id]
+            );
+            return { content: [{ type: "text", text: `Product store created. ID: ${(result as any).insertId}` }] };
+        },
+    }),
+    defineTool({
+        name: "list_product_suppliers",
+        module: "inventory",
+        description: "List all product suppliers",
+        schema: z.object({
+            branch_id: z.number().optional(),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            let query = "SELECT * FROM product_supplier WHERE 1=1";
+            const params: any[] = [];
+            if (parsed.branch_id) {
+                query += " AND branch_id = ?";
+                params.push(parsed.branch_id);
+            }
+            const page = await paginate(query, params, [["name", "ASC"], ["id", "ASC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "create_product_supplier",
+        module: "inventory",
+        description: "Create a new product supplier",
+        schema: z.object({
+            name: z.string(),
+            company_name: z.string().optional(),
+            mobileno: z.string(),
+            email: z.string().optional(),
+            address: z.string().optional(),
+            product_list: z.string().optional(),
+            branch_id: z.number().optional()
+        }),
+        handler: async (parsed) => {
+            const branch_id = parsed.branch_id || 1;
+            const [result] = await pool.execute(
+                "INSERT INTO product_supplier (name, company_name, mobileno, email, address, product_list, branch_id) VALUES (?, ?, ?, ?, ?, ?, ?)",
+                [parsed.name, parsed.company_name || '', parsed.mobileno, parsed.email || '', parsed.address || '', parsed.product_list || '', branch_id]
+            );
+            return { content: [{ type: "text", text: `Product supplier created. ID: ${(result as any).insertId}` }] };
+        },
+    }),
+    defineTool({
+        name: "list_products",
+        module: "inventory",
+        description: "List all products with stock levels",
+        schema: z.object({
+            category_id: z.number().optional(),
+            branch_id: z.number().optional(),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            let query = `SELECT p.*, c.name as category_name, 
+             pu.name as purchase_unit_name, su.name as sales_unit_name
+             FROM product p
+             LEFT JOIN product_category c ON p.category_id = c.id
+             LEFT JOIN product_unit pu ON p.purchase_unit_id = pu.id
+             LEFT JOIN product_unit su ON p.sales_unit_id = su.id
+             WHERE 1=1`;
+            const params: any[] = [];
+            if (parsed.category_id) {
+                query += " AND p.category_id = ?";
+                params.push(parsed.category_id);
+            }
+            if (parsed.branch_id) {
+                query += " AND p.branch_id = ?";
+                params.push(parsed.branch_id);
+            }
+            const page = await paginate(query, params, [["name", "ASC"], ["id", "ASC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "create_product",
+        module: "inventory",
+        description: "Create a new product",
+        schema: z.object({
+            name: z.string(),
+            code: z.string(),
+            category_id: z.number(),
+            purchase_unit_id: z.number(),
+            sales_unit_id: z.number(),
+            unit_ratio: z.string().optional(),
+            purchase_price: z.number().optional(),
+            sales_price: z.number().optional(),
+            available_stock: z.string().optional(),
+            remarks: z.string().optional(),
+            branch_id: z.number().optional()
+        }),
+        handler: async (parsed) => {
+            const branch_id = parsed.branch_id || 1;
+            const [result] = await pool.execute(
+                `INSERT INTO product (name, code, category_id, purchase_unit_id, sales_unit_id, unit_ratio, purchase_price, sales_price, available_stock, remarks, branch_id) 
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                [parsed.name, parsed.code, parsed.category_id, parsed.purchase_unit_id, parsed.sales_unit_id,
+                parsed.unit_ratio || '1', parsed.purchase_price || 0, parsed.sales_price || 0,
+                parsed.available_stock || '0', parsed.remarks || '', branch_id]
+            );
+            return { content: [{ type: "text", text: `Product created. ID: ${(result as any).insertId}` }] };
+        },
+    }),
+    defineTool({
+        name: "update_product_stock",
+        module: "inventory",
+        description: "Update product stock level",
+        schema: z.object({
+            product_id: z.number(),
+            available_stock: z.string()
+        }),
+        handler: async (parsed) => {
+            await pool.execute(
+                "UPDATE product SET available_stock = ? WHERE id = ?",
+                [parsed.available_stock, parsed.product_id]
+            );
+            return { content: [{ type: "text", text: `Product stock updated successfully.` }] };
+        },
+    }),
+    defineTool({
+        name: "create_purchase",
+        module: "inventory",
+        description: "Create a purchase order",
+        schema: z.object({
+            bill_no: z.string(),
+            supplier_id: z.number(),
+            store_id: z.number(),
+            date: z.string().describe("YYYY-MM-DD"),
+            remarks: z.string().optional(),
+            items: z.array(z.object({
+                product_id: z.number(),
+                quantity: z.number(),
+                unit_price: z.number(),
+                discount: z.number().optional()
+            })),
+            prepared_by: z.number().optional(),
+            branch_id: z.number().optional()
+        }),
+        handler: async (parsed) => {
+            const branch_id = parsed.branch_id || 1;
+
+            // Calculate totals
+            let total = 0;
+            for (const item of parsed.items) {
+                const subtotal = (item.quantity * item.unit_price) - (item.discount || 0);
+                total += subtotal;
+            }
+
+            // Insert purchase bill (statement 0), then details and stock updates referencing its ID
+            const statements: Statement[] = [{
+                sql: `INSERT INTO purchase_bill (bill_no, supplier_id, store_id, date, remarks, total, discount, paid, due, payment_status, purchase_status, prepared_by, branch_id) 
+     VALUES (?, ?, ?, ?, ?, ?, 0, 0, ?, 1, 1, ?, ?)`,
+                params: [parsed.bill_no, parsed.supplier_id, parsed.store_id, parsed.date, parsed.remarks || '', total, total, parsed.prepared_by || 1, branch_id]
+            }];
+
+            // Insert purchase details
+            for (const item of parsed.items) {
+                const subtotal = (item.quantity * item.unit_price) - (item.discount || 0);
+                statements.push({
+                    sql: "INSERT INTO purchase_bill_details (purchase_bill_id, product_id, unit_price, quantity, discount, sub_total) VALUES (?, ?, ?, ?, ?, ?)",
+                    params: [insertIdOf(0), item.product_id, item.unit_price, item.quantity, item.discount || 0, subtotal]
+                });
+
+                // Update product stock
+                statements.push({
+                    sql: "UPDATE product SET available_stock = available_stock + ? WHERE id = ?",
+                    params: [item.quantity, item.product_id]
+                });
+            }
+
+            const [billResult] = await pool.batch(statements);
+            const billId = (billResult as any).insertId;
+
+            return { content: [{ type: "text", text: `Purchase order created. Bill ID: ${billId}` }] };
+        },
+    }),
+    defineTool({
+        name: "list_purchases",
+        module: "inventory",
+        description: "List purchase orders",
+        schema: z.object({
+            supplier_id: z.number().optional(),
+            start_date: z.string().optional(),
+            end_date: z.string().optional(),
+            branch_id: z.number().optional(),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            let query = `SELECT pb.*, ps.name as supplier_name, pst.name as store_name
+             FROM purchase_bill pb
+             LEFT JOIN product_supplier ps ON pb.supplier_id = ps.id
+             LEFT JOIN product_store pst ON pb.store_id = pst.id
+             WHERE 1=1`;
+            const params: any[] = [];
+
+            if (parsed.supplier_id) {
+                query += " AND pb.supplier_id = ?";
+                params.push(parsed.supplier_id);
+            }
+            if (parsed.start_date) {
+                query += " AND pb.date >= ?";
+                params.push(parsed.start_date);
+            }
+            if (parsed.end_date) {
+                query += " AND pb.date <= ?";
+                params.push(parsed.end_date);
+            }
+            if (parsed.branch_id) {
+                query += " AND pb.branch_id = ?";
+                params.push(parsed.branch_id);
+            }
+
+            const page = await paginate(query, params, [["date", "DESC"], ["id", "DESC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "get_purchase_details",
+        module: "inventory",
+        description: "Get detailed information about a specific purchase",
+        schema: z.object({
+            purchase_id: z.number()
+        }),
+        handler: async (parsed) => {
+            const [bill] = await pool.execute(
+                `SELECT pb.*, ps.name as supplier_name, pst.name as store_name
+     FROM purchase_bill pb
+     LEFT JOIN product_supplier ps ON pb.supplier_id = ps.id
+     LEFT JOIN product_store pst ON pb.store_id = pst.id
+     WHERE pb.id = ?`,
+                [parsed.purchase_id]
+            );
+
+            const [details] = await pool.execute(
+                `SELECT pbd.*, p.name as product_name
+     FROM purchase_bill_details pbd
+    LEFT JOIN product p ON pbd.product_id = p.id
+     WHERE pbd.purchase_bill_id = ?`,
+                [parsed.purchase_id]
+            );
+
+            return { content: [{ type: "text", text: JSON.stringify({ bill: (bill as any[])[0], items: details }, null, 2) }] };
+        },
+    }),
+    defineTool({
+        name: "create_product_issue",
+        module: "inventory",
+        description: "Issue products to staff/students",
+        schema: z.object({
+            role_id: z.number(),
+            user_id: z.number(),
+            date_of_issue: z.string().describe("YYYY-MM-DD"),
+            due_date: z.string().optional().describe("YYYY-MM-DD"),
+            remarks: z.string().optional(),
+            items: z.array(z.object({
+                product_id: z.number(),
+                quantity: z.number()
+            })),
+            prepared_by: z.number().optional(),
+            branch_id: z.number().optional()
+        }),
+        handler: async (parsed) => {
+            const branch_id = parsed.branch_id || 1;
+
+            // Insert issue header (statement 0)
+            const statements: Statement[] = [{
+                sql: `INSERT INTO product_issues (role_id, user_id, date_of_issue, due_date, remarks, prepared_by, status, branch_id) 
+     VALUES (?, ?, ?, ?, ?, ?, 0, ?)`,
+                params: [parsed.role_id, parsed.user_id, parsed.date_of_issue, parsed.due_date || null, parsed.remarks || '', parsed.prepared_by || 1, branch_id]
+            }];
+
+            // Insert issue details and update stock
+            for (const item of parsed.items) {
+                statements.push({
+                    sql: "INSERT INTO product_issues_details (issues_id, product_id, quantity) VALUES (?, ?, ?)",
+                    params: [insertIdOf(0), item.product_id, item.quantity]
+                });
+
+                // Decrease product stock
+                statements.push({
+                    sql: "UPDATE product SET available_stock = available_stock - ? WHERE id = ?",
+                    params: [item.quantity, item.product_id]
+                });
+            }
+
+            const [issueResult] = await pool.batch(statements);
+            const issueId = (issueResult as any).insertId;
+
+            return { content: [{ type: "text", text: `Product issue created. Issue ID: ${issueId}` }] };
+        },
+    }),
+    defineTool({
+        name: "list_product_issues",
+        module: "inventory",
+        description: "List product issues",
+        schema: z.object({
+            user_id: z.number().optional(),
+            start_date: z.string().optional(),
+            end_date: z.string().optional(),
+            branch_id: z.number().optional(),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            let query = `SELECT pi.* FROM product_issues pi WHERE 1=1`;
+            const params: any[] = [];
+
+            if (parsed.user_id) {
+                query += " AND pi.user_id = ?";
+                params.push(parsed.user_id);
+            }
+            if (parsed.start_date) {
+                query += " AND pi.date_of_issue >= ?";
+                params.push(parsed.start_date);
+            }
+            if (parsed.end_date) {
+                query += " AND pi.date_of_issue <= ?";
+                params.push(parsed.end_date);
+            }
+            if (parsed.branch_id) {
+                query += " AND pi.branch_id = ?";
+                params.push(parsed.branch_id);
+            }
+
+            const page = await paginate(query, params, [["date_of_issue", "DESC"], ["id", "DESC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+];
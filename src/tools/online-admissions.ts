@@ -0,0 +1,218 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types";
+import { z } from "zod";
+import { insertIdOf, pool } from "../db";
+import { resolveIdentity } from "../identity";
+import { resolveSessionId } from "../school-year";
+import { admissionStatements, ensureReviewTable, findParentByMobile } from "../admissions";
+import { duplicateWarning } from "../duplicates";
+import { today } from "../dates";
+import { pageArgs, paginate } from "../pagination";
+import { formatArgs, renderPage } from "../formatting";
+import { defineTool, ToolDefinition } from "./registry";
+
+// RAMOM's online_admission.status: 1 while an application waits, 2 once the student is admitted
+const WAITING = 1;
+const ADMITTED = 2;
+
+const APPLICATIONS = `SELECT oa.*, c.name AS class_name, se.name AS section_name,
+                             CASE WHEN oa.status = ${ADMITTED} THEN 'approved' WHEN r.decision IS NOT NULL THEN r.decision ELSE 'pending' END AS review_status,
+                             r.reason AS rejection_reason, r.student_id AS admitted_student_id, r.reviewed_at
+                      FROM online_admission oa
+                      LEFT JOIN class c ON oa.class_id = c.id
+                      LEFT JOIN section se ON oa.section_id = se.id
+                      LEFT JOIN mcp_online_admission_review r ON r.online_admission_id = oa.id`;
+
+// The answers to the branch's custom form fields (custom_field rows for the online admission form),
+// by application. online_admission_fields only switches RAMOM's built-in form fields on and off.
+const customFields = async (ids: number[]): Promise<Map<number, Record<string, unknown>>> => {
+    const byApplication = new Map<number, Record<string, unknown>>();
+    if (ids.length === 0) return byApplication;
+
+    const [rows] = await pool.execute(
+        `SELECT v.relid, f.field_label, v.value
+         FROM custom_fields_online_values v
+         JOIN custom_field f ON v.field_id = f.id
+         WHERE v.relid IN (${ids.map(() => "?").join(",")})
+         ORDER BY v.relid, f.field_order, f.id`,
+        ids
+    );
+    for (const row of rows as any[]) {
+        const fields = byApplication.get(Number(row.relid)) || {};
+        fields[row.field_label] = row.value;
+        byApplication.set(Number(row.relid), fields);
+    }
+    return byApplication;
+};
+
+const findApplication = async (id: number) => {
+    await ensureReviewTable();
+    const [rows] = await pool.execute(`${APPLICATIONS} WHERE oa.id = ?`, [id]);
+    const application = (rows as any[])[0];
+    if (!application) {
+        throw new McpError(ErrorCode.InvalidRequest, `Online admission ${id} not found`);
+    }
+    return application;
+};
+
+const assertPending = (application: any) => {
+    if (application.review_status !== "pending") {
+        throw new McpError(ErrorCode.InvalidRequest, `Online admission ${application.id} was already ${application.review_status}`);
+    }
+};
+
+// Applications submitted through the school website's admission form
+export const onlineAdmissionTools: ToolDefinition[] = [
+    defineTool({
+        name: "list_online_admissions",
+        module: "online_admission",
+        description: "List online admission applications (pending by default) with their custom form fields",
+        schema: z.object({
+            status: z.enum(["pending", "approved", "rejected", "all"]).optional().describe("Review status (default pending)"),
+            class_id: z.number().optional(),
+            search: z.string().optional().describe("Applicant, guardian name or mobile number"),
+            branch_id: z.number().optional(),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            await ensureReviewTable();
+            let query = `${APPLICATIONS} WHERE 1=1`;
+            const params: any[] = [];
+
+            const status = parsed.status || "pending";
+            if (status === "pending") {
+                query += ` AND oa.status = ${WAITING} AND r.online_admission_id IS NULL`;
+            } else if (status === "approved") {
+                query += ` AND oa.status = ${ADMITTED}`;
+            } else if (status === "rejected") {
+                query += " AND r.decision = 'rejected'";
+            }
+            if (parsed.branch_id) {
+                query += " AND oa.branch_id = ?";
+                params.push(parsed.branch_id);
+            }
+            if (parsed.class_id) {
+                query += " AND oa.class_id = ?";
+                params.push(parsed.class_id);
+            }
+            if (parsed.search) {
+                query += " AND (oa.first_name LIKE ? OR oa.last_name LIKE ? OR oa.guardian_name LIKE ? OR oa.mobile_no LIKE ? OR oa.grd_mobile_no LIKE ?)";
+                params.push(...Array(5).fill(`%${parsed.search}%`));
+            }
+
+            const page = await paginate(query, params, [["id", "ASC"]], parsed);
+            const fields = await customFields(page.items.map((item) => Number(item.id)));
+            page.items = page.items.map((item) => ({ ...item, custom_fields: fields.get(Number(item.id)) || {} }));
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "get_online_admission",
+        module: "online_admission",
+        description: "Get one online admission application with its custom form fields and review status",
+        schema: z.object({
+            id: z.number()
+        }),
+        handler: async ({ id }) => {
+            const application = await findApplication(id);
+            const fields = await customFields([id]);
+            return { content: [{ type: "text", text: JSON.stringify({ ...application, custom_fields: fields.get(id) || {} }, null, 2) }] };
+        },
+    }),
+    defineTool({
+        name: "approve_online_admission",
+        module: "online_admission",
+        description: "Approve an online admission application: creates (or links) the parent from the guardian details, creates the student and enrollment, and marks the application admitted",
+        schema: z.object({
+            id: z.number().describe("Online admission ID"),
+            register_no: z.string(),
+            admission_date: z.string().optional().describe("YYYY-MM-DD (defaults to the date on the application, else today)"),
+            class_id: z.number().optional().describe("Defaults to the class applied for"),
+            section_id: z.number().optional().describe("Defaults to the section applied for"),
+            roll: z.number().optional(),
+            parent_id: z.number().optional().describe("Existing parent to link (defaults to a parent in the branch with the guardian's mobile number, else a new one)"),
+            session_id: z.number().optional().describe("Academic session ID (defaults to the active session)"),
+            branch_id: z.number().optional()
+        }),
+        handler: async (parsed) => {
+            const application = await findApplication(parsed.id);
+            assertPending(application);
+
+            const classId = parsed.class_id || Number(application.class_id) || 0;
+            const sectionId = parsed.section_id || Number(application.section_id) || 0;
+            if (!classId || !sectionId) {
+                throw new McpError(ErrorCode.InvalidParams, `Online admission ${parsed.id} has no class or section; pass class_id and section_id`);
+            }
+
+            const branchId = Number(application.branch_id) || parsed.branch_id || 1;
+            const guardianMobile = application.grd_mobile_no || "";
+            const parentId = parsed.parent_id || await findParentByMobile(guardianMobile, branchId);
+            const student = {
+                first_name: application.first_name, last_name: application.last_name || "", register_no: parsed.register_no,
+                admission_date: parsed.admission_date || application.admission_date || today(),
+                gender: application.gender || "male", birthday: application.birthday || null, religion: application.religion || "",
+                caste: application.caste || "", blood_group: application.blood_group || "", mother_tongue: application.mother_tongue || "",
+                current_address: application.present_address || "", permanent_address: application.permanent_address || "",
+                mobileno: application.mobile_no || "", email: application.email || "", category_id: application.category_id || null,
+                previous_details: application.previous_school_details || ""
+            };
+            const warning = await duplicateWarning("student", {
+                name: `${student.first_name} ${student.last_name}`, mobile: student.mobileno, email: student.email, birthday: student.birthday
+            }, branchId);
+
+            const sessionId = await resolveSessionId(parsed.session_id);
+            const { userId } = await resolveIdentity();
+            const admission = admissionStatements({
+                branchId,
+                parentId,
+                parent: {
+                    name: application.guardian_name || application.father_name || application.mother_name || `Guardian of ${application.first_name}`,
+                    relation: application.guardian_relation || "Guardian", father_name: application.father_name || "",
+                    mother_name: application.mother_name || "", occupation: application.grd_occupation || "",
+                    income: application.grd_income || "", education: application.grd_education || "", mobileno: guardianMobile,
+                    email: application.grd_email || "", address: application.grd_address || "", city: application.grd_city || "",
+                    state: application.grd_state || ""
+                },
+                student,
+                enroll: { class_id: classId, section_id: sectionId, roll: parsed.roll || null, session_id: sessionId },
+            });
+            admission.statements.push(
+                { sql: `UPDATE online_admission SET status = ${ADMITTED} WHERE id = ?`, params: [parsed.id] },
+                {
+                    sql: `INSERT INTO mcp_online_admission_review (online_admission_id, decision, student_id, parent_id, branch_id, reviewed_by, reviewed_at)
+                VALUES (?, 'approved', ?, ?, ?, ?, NOW())`,
+                    params: [parsed.id, insertIdOf(admission.student), admission.parentRef, branchId, userId]
+                }
+            );
+
+            const results = await pool.batch(admission.statements);
+            const studentId = results[admission.student].insertId;
+            const parentNote = parentId ? `linked to existing parent ${parentId}` : `new parent ${results[0].insertId}`;
+
+            return { content: [{ type: "text", text: `Online admission ${parsed.id} approved. Student ID: ${studentId} (${parentNote}), enrolled in class ${classId} section ${sectionId}.${warning}` }] };
+        },
+    }),
+    defineTool({
+        name: "reject_online_admission",
+        module: "online_admission",
+        description: "Reject an online admission application with a reason",
+        schema: z.object({
+            id: z.number().describe("Online admission ID"),
+            reason: z.string().min(1).describe("Why the application was rejected"),
+            branch_id: z.number().optional()
+        }),
+        handler: async (parsed) => {
+            const application = await findApplication(parsed.id);
+            assertPending(application);
+
+            const { userId } = await resolveIdentity();
+            await pool.execute(
+                `INSERT INTO mcp_online_admission_review (online_admission_id, decision, reason, branch_id, reviewed_by, reviewed_at)
+                 VALUES (?, 'rejected', ?, ?, ?, NOW())`,
+                [parsed.id, parsed.reason, application.branch_id, userId]
+            );
+
+            return { content: [{ type: "text", text: `Online admission ${parsed.id} rejected.` }] };
+        },
+    }),
+];
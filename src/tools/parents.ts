@@ -0,0 +1,154 @@
+import { z } from "zod";
+import { insertIdOf, pool } from "../db";
+import { resolveSessionId } from "../school-year";
+import { PARENT_ROLE_ID } from "../admissions";
+import { duplicateWarning } from "../duplicates";
+import { pageArgs, paginate } from "../pagination";
+import { formatArgs, renderPage, renderRows } from "../formatting";
+import { defineTool, ToolDefinition } from "./registry";
+
+// Parents
+export const parentTools: ToolDefinition[] = [
+    defineTool({
+        name: "list_parents",
+        module: "parents",
+        description: "List parents with filters",
+        schema: z.object({
+            branch_id: z.number().optional(),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            let query = "SELECT * FROM parent";
+            const params: any[] = [];
+            if (parsed.branch_id) { query += " WHERE branch_id = ?"; params.push(parsed.branch_id); }
+            const page = await paginate(query, params, [["id", "ASC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "get_parent",
+        module: "parents",
+        description: "Get full details of a single parent",
+        schema: z.object({
+            id: z.number()
+        }),
+        handler: async ({ id }) => {
+            const [rows] = await pool.execute("SELECT * FROM parent WHERE id = ?", [id]);
+            return { content: [{ type: "text", text: JSON.stringify((rows as any[])[0] || {}, null, 2) }] };
+        },
+    }),
+    defineTool({
+        name: "get_parent_children",
+        module: "parents",
+        description: "Get all students associated with a parent",
+        schema: z.object({
+            parent_id: z.number(),
+            session_id: z.number().optional().describe("Academic session ID (defaults to the active session)"),
+            ...formatArgs
+        }),
+        handler: async ({ parent_id, session_id, ...format }) => {
+            const sessionId = await resolveSessionId(session_id);
+            const query = `
+                SELECT s.id, s.first_name, s.last_name, c.name as class_name, se.name as section_name
+                FROM student s
+                JOIN enroll e ON s.id = e.student_id AND e.session_id = ?
+                JOIN class c ON e.class_id = c.id
+                JOIN section se ON e.section_id = se.id
+                WHERE s.parent_id = ?
+            `;
+            const [rows] = await pool.execute(query, [sessionId, parent_id]);
+            return { content: renderRows(rows, format) };
+        },
+    }),
+    defineTool({
+        name: "create_parent",
+        module: "parents",
+        description: "Create a new parent/guardian record",
+        schema: z.object({
+            name: z.string().describe("Guardian Name"), // This might be used as "Guardians Name" or generic name
+            relation: z.string().optional(), // Relation to student
+            father_name: z.string().optional(),
+            mother_name: z.string().optional(),
+            occupation: z.string().optional(), // Additional
+            income: z.string().optional(), // Additional
+            education: z.string().optional(), // Additional
+            mobileno: z.string().optional(),
+            email: z.string().optional(),
+            address: z.string().optional(), // Additional
+            city: z.string().optional(), // Additional
+            state: z.string().optional(), // Additional
+            branch_id: z.number().optional()
+        }),
+        handler: async (parsed) => {
+            const branch_id = parsed.branch_id || 1;
+            const warning = await duplicateWarning("parent", { name: parsed.name, mobile: parsed.mobileno, email: parsed.email }, branch_id);
+
+            const [result] = await pool.batch([
+                {
+                    sql: `INSERT INTO parent 
+                (name, relation, father_name, mother_name, occupation, income, education, mobileno, email, address, city, state, branch_id, created_at) 
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NOW())`,
+                    params: [
+                        parsed.name, parsed.relation || 'Guardian', parsed.father_name || '', parsed.mother_name || '',
+                        parsed.occupation || '', parsed.income || '', parsed.education || '',
+                        parsed.mobileno || '', parsed.email || '',
+                        parsed.address || '', parsed.city || '', parsed.state || '',
+                        branch_id
+                    ]
+                },
+                // Create login credential for parent (role 6)
+                {
+                    sql: `INSERT INTO login_credential (user_id, username, password, role, active) VALUES (?, ?, 'password', ${PARENT_ROLE_ID}, 1)`,
+                    params: [insertIdOf(0), parsed.email || insertIdOf(0, "parent")]
+                },
+            ]);
+
+            const parentId = (result as any).insertId;
+
+            return { content: [{ type: "text", text: `Parent created. ID: ${parentId}${warning}` }] };
+        },
+    }),
+    defineTool({
+        name: "update_parent",
+        module: "parents",
+        description: "Update parent details",
+        schema: z.object({
+            id: z.number(),
+            name: z.string().optional(),
+            relation: z.string().optional(),
+            father_name: z.string().optional(),
+            mother_name: z.string().optional(),
+            occupation: z.string().optional(),
+            income: z.string().optional(),
+            education: z.string().optional(),
+            mobileno: z.string().optional(),
+            email: z.string().optional(),
+            address: z.string().optional(),
+            city: z.string().optional(),
+            state: z.string().optional()
+        }),
+        handler: async (parsed) => {
+            const updates: string[] = [];
+            const params: any[] = [];
+
+            if (parsed.name) { updates.push("name = ?"); params.push(parsed.name); }
+            if (parsed.relation) { updates.push("relation = ?"); params.push(parsed.relation); }
+            if (parsed.father_name) { updates.push("father_name = ?"); params.push(parsed.father_name); }
+            if (parsed.mother_name) { updates.push("mother_name = ?"); params.push(parsed.mother_name); }
+            if (parsed.occupation) { updates.push("occupation = ?"); params.push(parsed.occupation); }
+            if (parsed.income) { updates.push("income = ?"); params.push(parsed.income); }
+            if (parsed.education) { updates.push("education = ?"); params.push(parsed.education); }
+            if (parsed.mobileno) { updates.push("mobileno = ?"); params.push(parsed.mobileno); }
+            if (parsed.email) { updates.push("email = ?"); params.push(parsed.email); }
+            if (parsed.address) { updates.push("address = ?"); params.push(parsed.address); }
+            if (parsed.city) { updates.push("city = ?"); params.push(parsed.city); }
+            if (parsed.state) { updates.push("state = ?"); params.push(parsed.state); }
+
+            if (updates.length === 0) return { content: [{ type: "text", text: "No changes provided." }] };
+            params.push(parsed.id);
+            await pool.execute(`UPDATE parent SET ${updates.join(", ")} WHERE id = ?`, params);
+            return { content: [{ type: "text", text: `Parent ${parsed.id} updated.` }] };
+        },
+    }),
+];
@@ -0,0 +1,666 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types";
+import { z } from "zod";
+import { pool } from "../db";
+import { pageArgs, paginate } from "../pagination";
+import { formatArgs, renderPage } from "../formatting";
+import { defineTool, ToolDefinition } from "./registry";
+
+// Front office: reception configuration, call and visitor logs, complaints and postal records
+export const receptionTools: ToolDefinition[] = [
+    defineTool({
+        name: "list_reception_configs",
+        module: "reception",
+        description: "List configuration items (purposes, types, references) for reception modules",
+        schema: z.object({
+            type: z.enum(["call_purpose", "complaint_type", "enquiry_reference", "enquiry_response", "visitor_purpose"]),
+            branch_id: z.number().optional(),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            let query = `SELECT id, name FROM ${parsed.type}`;
+            const params: any[] = [];
+            if (parsed.branch_id) {
+                query += " WHERE branch_id = ?";
+                params.push(parsed.branch_id);
+            }
+
+            const page = await paginate(query, params, [["id", "ASC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "create_reception_config",
+        module: "reception",
+        description: "Add a new configuration item for a reception module",
+        schema: z.object({
+            type: z.enum(["call_purpose", "complaint_type", "enquiry_reference", "enquiry_response", "visitor_purpose"]),
+            name: z.string(),
+            branch_id: z.number().optional()
+        }),
+        handler: async (parsed) => {
+            const branch_id = parsed.branch_id || 1;
+
+            const [result] = await pool.execute(
+                `INSERT INTO ${parsed.type} (name, branch_id) VALUES (?, ?)`,
+                [parsed.name, branch_id]
+            );
+            return { content: [{ type: "text", text: `Configuration added to ${parsed.type}. ID: ${(result as any).insertId}` }] };
+        },
+    }),
+    defineTool({
+        name: "delete_reception_config",
+        module: "reception",
+        description: "Remove a configuration item from a reception module",
+        schema: z.object({
+            type: z.enum(["call_purpose", "complaint_type", "enquiry_reference", "enquiry_response", "visitor_purpose"]),
+            id: z.number(),
+            branch_id: z.number().optional()
+        }),
+        handler: async (parsed) => {
+            let query = `DELETE FROM ${parsed.type} WHERE id = ?`;
+            const params: any[] = [parsed.id];
+            if (parsed.branch_id) {
+                query += " AND branch_id = ?";
+                params.push(parsed.branch_id);
+            }
+            const [result] = await pool.execute(query, params);
+            if ((result as any).affectedRows === 0) {
+                throw new McpError(ErrorCode.InvalidRequest, `Configuration ${parsed.id} not found in ${parsed.type}`);
+            }
+            return { content: [{ type: "text", text: `Configuration ${parsed.id} deleted from ${parsed.type}.` }] };
+        },
+    }),
+    defineTool({
+        name: "create_call_log",
+        module: "reception",
+        description: "Log a new call (incoming/outgoing)",
+        schema: z.object({
+            name: z.string(),
+            number: z.string().optional(),
+            call_type: z.string().describe("Incoming or Outgoing"),
+            purpose_id: z.number().optional(),
+            date: z.string().describe("YYYY-MM-DD"),
+            start_time: z.string().optional().describe("HH:MM:SS"),
+            end_time: z.string().optional().describe("HH:MM:SS"),
+            follow_up: z.string().optional().describe("YYYY-MM-DD"),
+            note: z.string().optional(),
+            branch_id: z.number().optional()
+        }),
+        handler: async (parsed) => {
+            const [result] = await pool.execute(
+                `INSERT INTO call_log 
+                (name, number, call_type, purpose_id, date, start_time, end_time, follow_up, note, branch_id, created_at) 
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NOW())`,
+                [
+                    parsed.name,
+                    parsed.number || null,
+                    parsed.call_type,
+                    parsed.purpose_id || null,
+                    parsed.date,
+                    parsed.start_time || null,
+                    parsed.end_time || null,
+                    parsed.follow_up || null,
+                    parsed.note || null,
+                    parsed.branch_id || 1,
+                ]
+            );
+            return { content: [{ type: "text", text: `Call log created. ID: ${(result as any).insertId}` }] };
+        },
+    }),
+    defineTool({
+        name: "list_call_logs",
+        module: "reception",
+        description: "List call logs",
+        schema: z.object({
+            date_from: z.string().optional().describe("YYYY-MM-DD"),
+            date_to: z.string().optional().describe("YYYY-MM-DD"),
+            call_type: z.string().optional(),
+            number: z.string().optional(),
+            branch_id: z.number().optional(),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            let query = "SELECT * FROM call_log WHERE 1=1";
+            const params: any[] = [];
+
+            if (parsed.branch_id) {
+                query += " AND branch_id = ?";
+                params.push(parsed.branch_id);
+            }
+            if (parsed.date_from) {
+                query += " AND date >= ?";
+                params.push(parsed.date_from);
+            }
+            if (parsed.date_to) {
+                query += " AND date <= ?";
+                params.push(parsed.date_to);
+            }
+            if (parsed.call_type) {
+                query += " AND call_type = ?";
+                params.push(parsed.call_type);
+            }
+            if (parsed.number) {
+                query += " AND number LIKE ?";
+                params.push(`%${parsed.number}%`);
+            }
+
+            const page = await paginate(query, params, [["date", "DESC"], ["id", "DESC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "read_call_log",
+        module: "reception",
+        description: "Get details of a specific call log",
+        schema: z.object({
+            id: z.number()
+        }),
+        handler: async ({ id }) => {
+            const [rows] = await pool.execute("SELECT * FROM call_log WHERE id = ?", [id]);
+            if ((rows as any[]).length === 0) {
+                throw new McpError(ErrorCode.InvalidRequest, `Call log with ID ${id} not found`);
+            }
+            return { content: [{ type: "text", text: JSON.stringify((rows as any[])[0], null, 2) }] };
+        },
+    }),
+    defineTool({
+        name: "update_call_log",
+        module: "reception",
+        description: "Update a call log entry",
+        schema: z.object({
+            id: z.number(),
+            name: z.string().optional(),
+            number: z.string().optional(),
+            call_type: z.string().optional(),
+            purpose_id: z.number().optional(),
+            date: z.string().optional().describe("YYYY-MM-DD"),
+            start_time: z.string().optional().describe("HH:MM:SS"),
+            end_time: z.string().optional().describe("HH:MM:SS"),
+            follow_up: z.string().optional().describe("YYYY-MM-DD"),
+            note: z.string().optional()
+        }),
+        handler: async (parsed) => {
+            const updates: string[] = [];
+            const values: any[] = [];
+
+            if (parsed.name) { updates.push("name = ?"); values.push(parsed.name); }
+            if (parsed.number) { updates.push("number = ?"); values.push(parsed.number); }
+            if (parsed.call_type) { updates.push("call_type = ?"); values.push(parsed.call_type); }
+            if (parsed.purpose_id) { updates.push("purpose_id = ?"); values.push(parsed.purpose_id); }
+            if (parsed.date) { updates.push("date = ?"); values.push(parsed.date); }
+            if (parsed.start_time) { updates.push("start_time = ?"); values.push(parsed.start_time); }
+            if (parsed.end_time) { updates.push("end_time = ?"); values.push(parsed.end_time); }
+            if (parsed.follow_up) { updates.push("follow_up = ?"); values.push(parsed.follow_up); }
+            if (parsed.note) { updates.push("note = ?"); values.push(parsed.note); }
+
+            if (updates.length > 0) {
+                updates.push("updated_at = NOW()");
+                values.push(parsed.id);
+                await pool.execute(`UPDATE call_log SET ${updates.join(", ")} WHERE id = ?`, values);
+                return { content: [{ type: "text", text: `Call log ${parsed.id} updated.` }] };
+            }
+            return { content: [{ type: "text", text: "No updates provided." }] };
+        },
+    }),
+    defineTool({
+        name: "delete_call_log",
+        module: "reception",
+        description: "Delete a call log entry",
+        schema: z.object({
+            id: z.number()
+        }),
+        handler: async ({ id }) => {
+            await pool.execute("DELETE FROM call_log WHERE id = ?", [id]);
+            return { content: [{ type: "text", text: `Call log ${id} deleted.` }] };
+        },
+    }),
+    defineTool({
+        name: "bulk_delete_call_logs",
+        module: "reception",
+        description: "Delete multiple call logs by ID",
+        schema: z.object({
+            ids: z.array(z.number()).describe("Array of call log IDs to delete")
+        }),
+        handler: async ({ ids }) => {
+            if (ids.length === 0) {
+                return { content: [{ type: "text", text: "No IDs provided for deletion." }] };
+            }
+            const placeholders = ids.map(() => '?').join(',');
+            const [result] = await pool.execute(`DELETE FROM call_log WHERE id IN (${placeholders})`, ids);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `${(result as any).affectedRows} call logs deleted successfully.`,
+                    },
+                ],
+            };
+        },
+    }),
+    defineTool({
+        name: "create_visitor_log",
+        module: "reception",
+        description: "Log a new visitor",
+        schema: z.object({
+            name: z.string(),
+            number: z.string().optional(),
+            purpose_id: z.number().optional(),
+            date: z.string().describe("YYYY-MM-DD"),
+            entry_time: z.string().optional().describe("HH:MM:SS"),
+            exit_time: z.string().optional().describe("HH:MM:SS"),
+            number_of_visitor: z.number().optional(),
+            id_number: z.string().optional(),
+            token_pass: z.string().optional(),
+            note: z.string().optional(),
+            branch_id: z.number().optional()
+        }),
+        handler: async (parsed) => {
+            const [result] = await pool.execute(
+                `INSERT INTO visitor_log 
+                (name, number, purpose_id, date, entry_time, exit_time, number_of_visitor, id_number, token_pass, note, branch_id, created_at)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NOW())`,
+                [parsed.name, parsed.number || null, parsed.purpose_id || null, parsed.date, parsed.entry_time || null, parsed.exit_time || null, parsed.number_of_visitor || null, parsed.id_number || null, parsed.token_pass || null, parsed.note || null, parsed.branch_id || 1]
+            );
+            return { content: [{ type: "text", text: `Visitor log created. ID: ${(result as any).insertId}` }] };
+        },
+    }),
+    defineTool({
+        name: "list_visitor_logs",
+        module: "reception",
+        description: "List visitor logs",
+        schema: z.object({
+            date_from: z.string().optional(),
+            date_to: z.string().optional(),
+            purpose_id: z.number().optional(),
+            branch_id: z.number().optional(),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            let query = "SELECT * FROM visitor_log WHERE 1=1";
+            const params: any[] = [];
+
+            if (parsed.branch_id) {
+                query += " AND branch_id = ?";
+                params.push(parsed.branch_id);
+            }
+            if (parsed.date_from) {
+                query += " AND date >= ?";
+                params.push(parsed.date_from);
+            }
+            if (parsed.date_to) {
+                query += " AND date <= ?";
+                params.push(parsed.date_to);
+            }
+            if (parsed.purpose_id) {
+                query += " AND purpose_id = ?";
+                params.push(parsed.purpose_id);
+            }
+
+            const page = await paginate(query, params, [["date", "DESC"], ["id", "DESC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "read_visitor_log",
+        module: "reception",
+        description: "Get details of a specific visitor log",
+        schema: z.object({
+            id: z.number()
+        }),
+        handler: async ({ id }) => {
+            const [rows] = await pool.execute("SELECT * FROM visitor_log WHERE id = ?", [id]);
+            if ((rows as any[]).length === 0) {
+                throw new McpError(ErrorCode.InvalidRequest, `Visitor log with ID ${id} not found`);
+            }
+            return { content: [{ type: "text", text: JSON.stringify((rows as any[])[0], null, 2) }] };
+        },
+    }),
+    defineTool({
+        name: "update_visitor_log",
+        module: "reception",
+        description: "Update visitor log",
+        schema: z.object({
+            id: z.number(),
+            name: z.string().optional(),
+            number: z.string().optional(),
+            purpose_id: z.number().optional(),
+            date: z.string().optional(),
+            entry_time: z.string().optional(),
+            exit_time: z.string().optional(),
+            number_of_visitor: z.number().optional(),
+            id_number: z.string().optional(),
+            token_pass: z.string().optional(),
+            note: z.string().optional()
+        }),
+        handler: async (parsed) => {
+            const updates: string[] = [];
+            const values: any[] = [];
+
+            if (parsed.name) { updates.push("name = ?"); values.push(parsed.name); }
+            if (parsed.number) { updates.push("number = ?"); values.push(parsed.number); }
+            if (parsed.purpose_id) { updates.push("purpose_id = ?"); values.push(parsed.purpose_id); }
+            if (parsed.date) { updates.push("date = ?"); values.push(parsed.date); }
+            if (parsed.entry_time) { updates.push("entry_time = ?"); values.push(parsed.entry_time); }
+            if (parsed.exit_time) { updates.push("exit_time = ?"); values.push(parsed.exit_time); }
+            if (parsed.number_of_visitor) { updates.push("number_of_visitor = ?"); values.push(parsed.number_of_visitor); }
+            if (parsed.id_number) { updates.push("id_number = ?"); values.push(parsed.id_number); }
+            if (parsed.token_pass) { updates.push("token_pass = ?"); values.push(parsed.token_pass); }
+            if (parsed.note) { updates.push("note = ?"); values.push(parsed.note); }
+
+            if (updates.length > 0) {
+                values.push(parsed.id);
+                await pool.execute(`UPDATE visitor_log SET ${updates.join(", ")} WHERE id = ?`, values);
+                return { content: [{ type: "text", text: `Visitor log ${parsed.id} updated.` }] };
+            }
+            return { content: [{ type: "text", text: "No updates provided." }] };
+        },
+    }),
+    defineTool({
+        name: "delete_visitor_log",
+        module: "reception",
+        description: "Delete a visitor log",
+        schema: z.object({
+            id: z.number()
+        }),
+        handler: async ({ id }) => {
+            await pool.execute("DELETE FROM visitor_log WHERE id = ?", [id]);
+            return { content: [{ type: "text", text: `Visitor log ${id} deleted.` }] };
+        },
+    }),
+    defineTool({
+        name: "bulk_delete_visitor_logs",
+        module: "reception",
+        description: "Delete multiple visitor logs by ID",
+        schema: z.object({
+            ids: z.array(z.number()).describe("Array of visitor log IDs to delete")
+        }),
+        handler: async ({ ids }) => {
+            if (ids.length === 0) {
+                return { content: [{ type: "text", text: "No IDs provided for deletion." }] };
+            }
+            const placeholders = ids.map(() => '?').join(',');
+            const [result] = await pool.execute(`DELETE FROM visitor_log WHERE id IN (${placeholders})`, ids);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `${(result as any).affectedRows} visitor logs deleted successfully.`,
+                    },
+                ],
+            };
+        },
+    }),
+    defineTool({
+        name: "create_complaint",
+        module: "reception",
+        description: "Log a new complaint",
+        schema: z.object({
+            complainant_name: z.string(),
+            number: z.string().optional(),
+            type_id: z.number().optional(),
+            date: z.string().describe("YYYY-MM-DD"),
+            assigned_id: z.number().optional(),
+            note: z.string().optional(),
+            branch_id: z.number().optional()
+        }),
+        handler: async (parsed) => {
+            const [result] = await pool.execute(
+                `INSERT INTO complaint 
+                (name, number, type_id, date, assigned_id, note, branch_id, created_at)
+                VALUES (?, ?, ?, ?, ?, ?, ?, NOW())`,
+                [parsed.complainant_name, parsed.number || null, parsed.type_id || null, parsed.date, parsed.assigned_id || null, parsed.note || null, parsed.branch_id || 1]
+            );
+            return { content: [{ type: "text", text: `Complaint created. ID: ${(result as any).insertId}` }] };
+        },
+    }),
+    defineTool({
+        name: "list_complaints",
+        module: "reception",
+        description: "List complaints",
+        schema: z.object({
+            type_id: z.number().optional(),
+            date_from: z.string().optional(),
+            date_to: z.string().optional(),
+            branch_id: z.number().optional(),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            let query = "SELECT * FROM complaint WHERE 1=1";
+            const params: any[] = [];
+
+            if (parsed.branch_id) { query += " AND branch_id = ?"; params.push(parsed.branch_id); }
+            if (parsed.type_id) { query += " AND type_id = ?"; params.push(parsed.type_id); }
+            if (parsed.date_from) { query += " AND date >= ?"; params.push(parsed.date_from); }
+            if (parsed.date_to) { query += " AND date <= ?"; params.push(parsed.date_to); }
+
+            const page = await paginate(query, params, [["date", "DESC"], ["id", "DESC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "read_complaint",
+        module: "reception",
+        description: "Get details of a specific complaint",
+        schema: z.object({
+            id: z.number()
+        }),
+        handler: async ({ id }) => {
+            const [rows] = await pool.execute("SELECT * FROM complaint WHERE id = ?", [id]);
+            if ((rows as any[]).length === 0) {
+                throw new McpError(ErrorCode.InvalidRequest, `Complaint with ID ${id} not found`);
+            }
+            return { content: [{ type: "text", text: JSON.stringify((rows as any[])[0], null, 2) }] };
+        },
+    }),
+    defineTool({
+        name: "update_complaint",
+        module: "reception",
+        description: "Update complaint",
+        schema: z.object({
+            id: z.number(),
+            complainant_name: z.string().optional(),
+            number: z.string().optional(),
+            type_id: z.number().optional(),
+            date: z.string().optional(),
+            assigned_id: z.number().optional(),
+            action: z.string().optional(),
+            date_of_solution: z.string().optional(),
+            note: z.string().optional()
+        }),
+        handler: async (parsed) => {
+            const updates: string[] = [];
+            const values: any[] = [];
+
+            if (parsed.complainant_name) { updates.push("name = ?"); values.push(parsed.complainant_name); }
+            if (parsed.number) { updates.push("number = ?"); values.push(parsed.number); }
+            if (parsed.type_id) { updates.push("type_id = ?"); values.push(parsed.type_id); }
+            if (parsed.date) { updates.push("date = ?"); values.push(parsed.date); }
+            if (parsed.assigned_id) { updates.push("assigned_id = ?"); values.push(parsed.assigned_id); }
+            if (parsed.action) { updates.push("action = ?"); values.push(parsed.action); }
+            if (parsed.date_of_solution) { updates.push("date_of_solution = ?"); values.push(parsed.date_of_solution); }
+            if (parsed.note) { updates.push("note = ?"); values.push(parsed.note); }
+
+            if (updates.length > 0) {
+                values.push(parsed.id);
+                await pool.execute(`UPDATE complaint SET ${updates.join(", ")} WHERE id = ?`, values);
+                return { content: [{ type: "text", text: `Complaint ${parsed.id} updated.` }] };
+            }
+            return { content: [{ type: "text", text: "No updates provided." }] };
+        },
+    }),
+    defineTool({
+        name: "delete_complaint",
+        module: "reception",
+        description: "Delete a complaint",
+        schema: z.object({
+            id: z.number()
+        }),
+        handler: async ({ id }) => {
+            await pool.execute("DELETE FROM complaint WHERE id = ?", [id]);
+            return { content: [{ type: "text", text: `Complaint ${id} deleted.` }] };
+        },
+    }),
+    defineTool({
+        name: "bulk_delete_complaints",
+        module: "reception",
+        description: "Delete multiple complaints by ID",
+        schema: z.object({
+            ids: z.array(z.number()).describe("Array of complaint IDs to delete")
+        }),
+        handler: async ({ ids }) => {
+            if (ids.length === 0) {
+                return { content: [{ type: "text", text: "No IDs provided for deletion." }] };
+            }
+            const placeholders = ids.map(() => '?').join(',');
+            const [result] = await pool.execute(`DELETE FROM complaint WHERE id IN (${placeholders})`, ids);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `${(result as any).affectedRows} complaints deleted successfully.`,
+                    },
+                ],
+            };
+        },
+    }),
+    defineTool({
+        name: "create_postal_record",
+        module: "reception",
+        description: "Log a postal record (dispatch/receive)",
+        schema: z.object({
+            sender_title: z.string(),
+            receiver_title: z.string(),
+            reference_no: z.string().optional(),
+            address: z.string().optional(),
+            date: z.string().describe("YYYY-MM-DD"),
+            type: z.string().describe("dispatch or receive"),
+            confidential: z.boolean().optional(),
+            note: z.string().optional(),
+            branch_id: z.number().optional()
+        }),
+        handler: async (parsed) => {
+            const [result] = await pool.execute(
+                `INSERT INTO postal_record 
+                (sender_title, receiver_title, reference_no, address, date, type, confidential, note, branch_id, created_at)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, NOW())`,
+                [parsed.sender_title, parsed.receiver_title, parsed.reference_no || null, parsed.address || null, parsed.date, parsed.type, parsed.confidential ? 1 : 0, parsed.note || null, parsed.branch_id || 1]
+            );
+            return { content: [{ type: "text", text: `Postal record created. ID: ${(result as any).insertId}` }] };
+        },
+    }),
+    defineTool({
+        name: "list_postal_records",
+        module: "reception",
+        description: "List postal records",
+        schema: z.object({
+            type: z.string().optional(),
+            date_from: z.string().optional(),
+            date_to: z.string().optional(),
+            branch_id: z.number().optional(),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            let query = "SELECT * FROM postal_record WHERE 1=1";
+            const params: any[] = [];
+
+            if (parsed.branch_id) { query += " AND branch_id = ?"; params.push(parsed.branch_id); }
+            if (parsed.type) { query += " AND type = ?"; params.push(parsed.type); }
+            if (parsed.date_from) { query += " AND date >= ?"; params.push(parsed.date_from); }
+            if (parsed.date_to) { query += " AND date <= ?"; params.push(parsed.date_to); }
+
+            const page = await paginate(query, params, [["date", "DESC"], ["id", "DESC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "read_postal_record",
+        module: "reception",
+        description: "Get details of a specific postal record",
+        schema: z.object({
+            id: z.number()
+        }),
+        handler: async ({ id }) => {
+            const [rows] = await pool.execute("SELECT * FROM postal_record WHERE id = ?", [id]);
+            if ((rows as any[]).length === 0) {
+                throw new McpError(ErrorCode.InvalidRequest, `Postal record with ID ${id} not found`);
+            }
+            return { content: [{ type: "text", text: JSON.stringify((rows as any[])[0], null, 2) }] };
+        },
+    }),
+    defineTool({
+        name: "update_postal_record",
+        module: "reception",
+        description: "Update postal record",
+        schema: z.object({
+            id: z.number(),
+            sender_title: z.string().optional(),
+            receiver_title: z.string().optional(),
+            reference_no: z.string().optional(),
+            address: z.string().optional(),
+            date: z.string().optional(),
+            type: z.string().optional(),
+            confidential: z.boolean().optional(),
+            note: z.string().optional()
+        }),
+        handler: async (parsed) => {
+            const updates: string[] = [];
+            const values: any[] = [];
+
+            if (parsed.sender_title) { updates.push("sender_title = ?"); values.push(parsed.sender_title); }
+            if (parsed.receiver_title) { updates.push("receiver_title = ?"); values.push(parsed.receiver_title); }
+            if (parsed.reference_no) { updates.push("reference_no = ?"); values.push(parsed.reference_no); }
+            if (parsed.address) { updates.push("address = ?"); values.push(parsed.address); }
+            if (parsed.date) { updates.push("date = ?"); values.push(parsed.date); }
+            if (parsed.type) { updates.push("type = ?"); values.push(parsed.type); }
+            if (parsed.confidential !== undefined) { updates.push("confidential = ?"); values.push(parsed.confidential ? 1 : 0); }
+            if (parsed.note) { updates.push("note = ?"); values.push(parsed.note); }
+
+            if (updates.length > 0) {
+                values.push(parsed.id);
+                await pool.execute(`UPDATE postal_record SET ${updates.join(", ")} WHERE id = ?`, values);
+                return { content: [{ type: "text", text: `Postal record ${parsed.id} updated.` }] };
+            }
+            return { content: [{ type: "text", text: "No updates provided." }] };
+        },
+    }),
+    defineTool({
+        name: "delete_postal_record",
+        module: "reception",
+        description: "Delete postal record",
+        schema: z.object({
+            id: z.number()
+        }),
+        handler: async ({ id }) => {
+            await pool.execute("DELETE FROM postal_record WHERE id = ?", [id]);
+            return { content: [{ type: "text", text: `Postal record ${id} deleted.` }] };
+        },
+    }),
+    defineTool({
+        name: "bulk_delete_postal_records",
+        module: "reception",
+        description: "Delete multiple postal records by ID",
+        schema: z.object({
+            ids: z.array(z.number()).describe("Array of postal record IDs to delete")
+        }),
+        handler: async ({ ids }) => {
+            if (ids.length === 0) {
+                return { content: [{ type: "text", text: "No IDs provided for deletion." }] };
+            }
+            const placeholders = ids.map(() => '?').join(',');
+            const [result] = await pool.execute(`DELETE FROM postal_record WHERE id IN (${placeholders})`, ids);
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `${(result as any).affectedRows} postal records deleted successfully.`,
+                    },
+                ],
+            };
+        },
+    }),
+];
@@ -0,0 +1,51 @@
+import { z } from "zod";
+
+// A type alias rather than an interface so it stays assignable to the SDK's passthrough result type
+export type ToolResult = {
+    content: { type: "text"; text: string }[];
+    isError?: boolean;
+};
+
+// A tool is declared once: its zod schema validates calls and is also what tools/list advertises
+export interface ToolDefinition<S extends z.AnyZodObject = z.AnyZodObject> {
+    name: string;
+    // RAMOM module prefix (modules.prefix) the tool belongs to; tools without one are always available
+    module?: string;
+    description: string;
+    schema: S;
+    handler(args: z.infer<S>): Promise<ToolResult>;
+}
+
+export const defineTool = <S extends z.AnyZodObject>(tool: ToolDefinition<S>): ToolDefinition<S> => tool;
+
+type JsonSchema = Record<string, unknown>;
+
+// Covers the zod types the tool schemas use; anything else is advertised without a type constraint
+export const toJsonSchema = (schema: z.ZodTypeAny): JsonSchema => {
+    const json = convert(schema);
+    return schema.description ? { ...json, description: schema.description } : json;
+};
+
+const convert = (schema: z.ZodTypeAny): JsonSchema => {
+    if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+        return toJsonSchema(schema.unwrap());
+    }
+    if (schema instanceof z.ZodDefault) {
+        return { ...toJsonSchema(schema.removeDefault()), default: schema._def.defaultValue() };
+    }
+    if (schema instanceof z.ZodObject) {
+        const properties: Record<string, JsonSchema> = {};
+        const required: string[] = [];
+        for (const [key, value] of Object.entries(schema.shape as z.ZodRawShape)) {
+            properties[key] = toJsonSchema(value);
+            if (!value.isOptional()) required.push(key);
+        }
+        return required.length > 0 ? { type: "object", properties, required } : { type: "object", properties };
+    }
+    if (schema instanceof z.ZodArray) return { type: "array", items: toJsonSchema(schema.element) };
+    if (schema instanceof z.ZodEnum) return { type: "string", enum: schema.options };
+    if (schema instanceof z.ZodString) return { type: "string" };
+    if (schema instanceof z.ZodNumber) return { type: "number" };
+    if (schema instanceof z.ZodBoolean) return { type: "boolean" };
+    return {};
+};
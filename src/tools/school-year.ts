@@ -0,0 +1,21 @@
+import { z } from "zod";
+import { listSessions } from "../school-year";
+import { pageArgs, paginateRows } from "../pagination";
+import { formatArgs, renderPage } from "../formatting";
+import { defineTool, ToolDefinition } from "./registry";
+
+// Academic sessions
+export const schoolYearTools: ToolDefinition[] = [
+    defineTool({
+        name: "list_sessions",
+        description: "List academic sessions (school years), flagging the active one",
+        schema: z.object({
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            const page = paginateRows(await listSessions(), [["id", "DESC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+];
@@ -0,0 +1,164 @@
+import { z } from "zod";
+import { today } from "../dates";
+import { insertIdOf, pool, Statement } from "../db";
+import { pageArgs, paginate } from "../pagination";
+import { formatArgs, renderPage } from "../formatting";
+import { assertAssignableRole } from "../permissions";
+import { defineTool, ToolDefinition } from "./registry";
+
+// Staff records
+export const staffTools: ToolDefinition[] = [
+    defineTool({
+        name: "list_staff",
+        module: "employee",
+        description: "List staff members with filters",
+        schema: z.object({
+            branch_id: z.number().optional(),
+            role_id: z.number().optional(),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            let query = `
+                SELECT s.*, lc.role as role_id, r.name as role_name
+                FROM staff s
+                JOIN login_credential lc ON s.id = lc.user_id AND lc.role NOT IN (6, 7)
+                JOIN roles r ON lc.role = r.id
+            `;
+            const params: any[] = [];
+            const conditions: string[] = [];
+            if (parsed.branch_id) { conditions.push("s.branch_id = ?"); params.push(parsed.branch_id); }
+            if (parsed.role_id) { conditions.push("lc.role = ?"); params.push(parsed.role_id); }
+            if (conditions.length > 0) query += " WHERE " + conditions.join(" AND ");
+            const page = await paginate(query, params, [["id", "ASC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "get_staff",
+        module: "employee",
+        description: "Get full details of a single staff member",
+        schema: z.object({
+            id: z.number()
+        }),
+        handler: async ({ id }) => {
+            const query = `
+                SELECT s.*, lc.role as role_id, r.name as role_name
+                FROM staff s
+                JOIN login_credential lc ON s.id = lc.user_id AND lc.role NOT IN (6, 7)
+                JOIN roles r ON lc.role = r.id
+                WHERE s.id = ?
+            `;
+            const [rows] = await pool.execute(query, [id]);
+            return { content: [{ type: "text", text: JSON.stringify((rows as any[])[0] || {}, null, 2) }] };
+        },
+    }),
+    defineTool({
+        name: "create_staff",
+        module: "employee",
+        description: "Create a new staff member",
+        schema: z.object({
+            name: z.string(),
+            sex: z.string().optional(),
+            designation_id: z.number().optional(),
+            department_id: z.number().optional(),
+            joining_date: z.string().optional(),
+            mobileno: z.string().optional(),
+            email: z.string().optional(),
+            address: z.string().optional(), // Additional
+            qualification: z.string().optional(), // Additional
+            experience: z.string().optional(), // Additional
+            branch_id: z.number().optional(),
+            role_id: z.number()
+        }),
+        handler: async (parsed) => {
+            await assertAssignableRole(parsed.role_id);
+            const branch_id = parsed.branch_id || 1;
+
+            // Generate a staff ID if not provided (using current timestamp based random for now)
+            const staffCode = `STF${Date.now().toString().slice(-6)}`;
+
+            const [result] = await pool.batch([
+                {
+                    sql: `INSERT INTO staff 
+                (name, sex, designation, department, joining_date, mobileno, email, address, qualification, work_exp, staff_id, branch_id) 
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                    params: [
+                        parsed.name, parsed.sex || 'Male', parsed.designation_id || 0, parsed.department_id || 0,
+                        parsed.joining_date || today(),
+                        parsed.mobileno || '', parsed.email || '',
+                        parsed.address || '', parsed.qualification || '', parsed.experience || '',
+                        staffCode, branch_id
+                    ]
+                },
+                // Create login credential
+                {
+                    sql: "INSERT INTO login_credential (user_id, username, password, role, active) VALUES (?, ?, 'password', ?, 1)",
+                    params: [insertIdOf(0), parsed.email || insertIdOf(0, "staff"), parsed.role_id]
+                },
+            ]);
+            const staffId = (result as any).insertId;
+            return { content: [{ type: "text", text: `Staff created. ID: ${staffId}` }] };
+        },
+    }),
+    defineTool({
+        name: "update_staff",
+        module: "employee",
+        description: "Update staff details",
+        schema: z.object({
+            id: z.number(),
+            name: z.string().optional(),
+            sex: z.string().optional(),
+            designation_id: z.number().optional(),
+            department_id: z.number().optional(),
+            joining_date: z.string().optional(),
+            mobileno: z.string().optional(),
+            email: z.string().optional(),
+            address: z.string().optional(),
+            qualification: z.string().optional(),
+            experience: z.string().optional(),
+            role_id: z.number().optional(),
+            active: z.number().optional().describe("1 for active, 0 for inactive")
+        }),
+        handler: async (parsed) => {
+            if (parsed.role_id !== undefined) await assertAssignableRole(parsed.role_id);
+            const updates: string[] = [];
+            const params: any[] = [];
+            const statements: Statement[] = [];
+
+            if (parsed.name) { updates.push("name = ?"); params.push(parsed.name); }
+            if (parsed.sex) { updates.push("sex = ?"); params.push(parsed.sex); }
+            if (parsed.designation_id !== undefined) { updates.push("designation = ?"); params.push(parsed.designation_id); }
+            if (parsed.department_id !== undefined) { updates.push("department = ?"); params.push(parsed.department_id); }
+            if (parsed.joining_date) { updates.push("joining_date = ?"); params.push(parsed.joining_date); }
+            if (parsed.mobileno) { updates.push("mobileno = ?"); params.push(parsed.mobileno); }
+            if (parsed.email) { updates.push("email = ?"); params.push(parsed.email); }
+            if (parsed.address) { updates.push("address = ?"); params.push(parsed.address); }
+            if (parsed.qualification) { updates.push("qualification = ?"); params.push(parsed.qualification); }
+            if (parsed.experience) { updates.push("work_exp = ?"); params.push(parsed.experience); }
+
+            if (updates.length > 0) {
+                params.push(parsed.id);
+                statements.push({ sql: `UPDATE staff SET ${updates.join(", ")} WHERE id = ?`, params });
+            }
+
+            // Update Role/Active Status in login_credential
+            if (parsed.role_id !== undefined || parsed.active !== undefined) {
+                const lcUpdates: string[] = [];
+                const lcParams: any[] = [];
+                if (parsed.role_id !== undefined) { lcUpdates.push("role = ?"); lcParams.push(parsed.role_id); }
+                if (parsed.active !== undefined) { lcUpdates.push("active = ?"); lcParams.push(parsed.active); }
+                if (lcUpdates.length > 0) {
+                    lcParams.push(parsed.id);
+                    statements.push({ sql: `UPDATE login_credential SET ${lcUpdates.join(", ")} WHERE user_id = ? AND role NOT IN (6, 7)`, params: lcParams });
+                }
+            }
+
+            if (statements.length > 0) {
+                await pool.batch(statements);
+            }
+
+            return { content: [{ type: "text", text: `Staff ${parsed.id} updated.` }] };
+        },
+    }),
+];
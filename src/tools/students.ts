@@ -0,0 +1,223 @@
+import { z } from "zod";
+import { insertIdOf, pool, Statement } from "../db";
+import { resolveSessionId } from "../school-year";
+import { STUDENT_ROLE_ID } from "../admissions";
+import { duplicateWarning } from "../duplicates";
+import { pageArgs, paginate } from "../pagination";
+import { formatArgs, renderPage, renderRows } from "../formatting";
+import { defineTool, ToolDefinition } from "./registry";
+
+// Students
+export const studentTools: ToolDefinition[] = [
+    defineTool({
+        name: "list_students",
+        module: "student",
+        description: "List students with filters",
+        schema: z.object({
+            branch_id: z.number().optional(),
+            class_id: z.number().optional(),
+            section_id: z.number().optional(),
+            session_id: z.number().optional().describe("Academic session ID (defaults to the active session)"),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            let query = `
+                SELECT e.*, s.first_name, s.last_name, s.register_no, s.email, c.name as class_name, se.name as section_name
+                FROM enroll e
+                JOIN student s ON e.student_id = s.id
+                JOIN class c ON e.class_id = c.id
+                JOIN section se ON e.section_id = se.id
+                WHERE e.session_id = ?
+            `;
+            const params: any[] = [await resolveSessionId(parsed.session_id)];
+            if (parsed.branch_id) { query += " AND e.branch_id = ?"; params.push(parsed.branch_id); }
+            if (parsed.class_id) { query += " AND e.class_id = ?"; params.push(parsed.class_id); }
+            if (parsed.section_id) { query += " AND e.section_id = ?"; params.push(parsed.section_id); }
+            const page = await paginate(query, params, [["id", "ASC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "get_student",
+        module: "student",
+        description: "Get full details of a single student",
+        schema: z.object({
+            id: z.number(),
+            session_id: z.number().optional().describe("Academic session ID (defaults to the active session)")
+        }),
+        handler: async ({ id, session_id }) => {
+            const sessionId = await resolveSessionId(session_id);
+            const query = `
+                SELECT s.*, e.class_id, e.section_id, e.roll, c.name as class_name, se.name as section_name
+                FROM student s
+                LEFT JOIN enroll e ON s.id = e.student_id AND e.session_id = ?
+                LEFT JOIN class c ON e.class_id = c.id
+                LEFT JOIN section se ON e.section_id = se.id
+                WHERE s.id = ?
+            `;
+            const [rows] = await pool.execute(query, [sessionId, id]);
+            return { content: [{ type: "text", text: JSON.stringify((rows as any[])[0] || {}, null, 2) }] };
+        },
+    }),
+    defineTool({
+        name: "search_students",
+        module: "student",
+        description: "Search students by text",
+        schema: z.object({
+            search: z.string(),
+            branch_id: z.number().optional(),
+            ...formatArgs
+        }),
+        handler: async ({ search, branch_id, ...format }) => {
+            let query = `
+                SELECT s.id, s.first_name, s.last_name, s.register_no, s.email
+                FROM student s
+                WHERE (s.first_name LIKE ? OR s.last_name LIKE ? OR s.register_no LIKE ? OR s.email LIKE ?)
+            `;
+            const term = `%${search}%`;
+            const params: any[] = [term, term, term, term];
+            if (branch_id) {
+                query += " AND EXISTS (SELECT 1 FROM enroll e WHERE e.student_id = s.id AND e.branch_id = ?)";
+                params.push(branch_id);
+            }
+            const [rows] = await pool.execute(query, params);
+            return { content: renderRows(rows, format) };
+        },
+    }),
+    defineTool({
+        name: "create_student",
+        module: "student",
+        description: "Create a new student record",
+        schema: z.object({
+            first_name: z.string(),
+            last_name: z.string(),
+            register_no: z.string(),
+            admission_date: z.string(),
+            gender: z.string().optional(),
+            birthday: z.string().optional(),
+            mobileno: z.string().optional(),
+            email: z.string().optional(),
+            parent_id: z.number().optional(),
+            branch_id: z.number().optional(),
+            class_id: z.number(),
+            section_id: z.number(),
+            // Additional fields
+            category_id: z.number().optional(),
+            religion: z.string().optional(),
+            caste: z.string().optional(),
+            blood_group: z.string().optional(),
+            current_address: z.string().optional(),
+            permanent_address: z.string().optional(),
+            session_id: z.number().optional().describe("Academic session ID (defaults to the active session)")
+        }),
+        handler: async (parsed) => {
+            const branch_id = parsed.branch_id || 1;
+            const warning = await duplicateWarning("student", {
+                name: `${parsed.first_name} ${parsed.last_name}`, mobile: parsed.mobileno, email: parsed.email, birthday: parsed.birthday
+            }, branch_id);
+
+            const [result] = await pool.batch([
+                // 1. Insert into student table
+                {
+                    sql: `INSERT INTO student 
+                (first_name, last_name, register_no, admission_date, gender, birthday, mobileno, email, parent_id,
+                 category_id, religion, caste, blood_group, current_address, permanent_address) 
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                    params: [
+                        parsed.first_name, parsed.last_name, parsed.register_no, parsed.admission_date,
+                        parsed.gender || 'male', parsed.birthday || null, parsed.mobileno || '', parsed.email || '',
+                        parsed.parent_id || null,
+                        parsed.category_id || null, parsed.religion || '', parsed.caste || '', parsed.blood_group || '',
+                        parsed.current_address || '', parsed.permanent_address || ''
+                    ]
+                },
+                // 2. Add to enroll table for the active (or requested) session; RAMOM keeps the branch, class and section here
+                {
+                    sql: "INSERT INTO enroll (student_id, class_id, section_id, session_id, branch_id) VALUES (?, ?, ?, ?, ?)",
+                    params: [insertIdOf(0), parsed.class_id, parsed.section_id, await resolveSessionId(parsed.session_id), branch_id]
+                },
+                // 3. Create login credential (default password matches email or generic)
+                {
+                    sql: `INSERT INTO login_credential (user_id, username, password, role, active) VALUES (?, ?, 'password', ${STUDENT_ROLE_ID}, 1)`,
+                    params: [insertIdOf(0), parsed.email || insertIdOf(0, "student")]
+                },
+            ]);
+
+            const studentId = (result as any).insertId;
+
+            return { content: [{ type: "text", text: `Student created. ID: ${studentId}${warning}` }] };
+        },
+    }),
+    defineTool({
+        name: "update_student",
+        module: "student",
+        description: "Update student details",
+        schema: z.object({
+            id: z.number(),
+            first_name: z.string().optional(),
+            last_name: z.string().optional(),
+            register_no: z.string().optional(),
+            admission_date: z.string().optional(),
+            gender: z.string().optional(),
+            birthday: z.string().optional(),
+            mobileno: z.string().optional(),
+            email: z.string().optional(),
+            parent_id: z.number().optional(),
+            class_id: z.number().optional(),
+            section_id: z.number().optional(),
+            category_id: z.number().optional(),
+            religion: z.string().optional(),
+            caste: z.string().optional(),
+            blood_group: z.string().optional(),
+            current_address: z.string().optional(),
+            permanent_address: z.string().optional(),
+            session_id: z.number().optional().describe("Academic session ID (defaults to the active session)")
+        }),
+        handler: async (parsed) => {
+            const updates: string[] = [];
+            const params: any[] = [];
+            const statements: Statement[] = [];
+
+            if (parsed.first_name) { updates.push("first_name = ?"); params.push(parsed.first_name); }
+            if (parsed.last_name) { updates.push("last_name = ?"); params.push(parsed.last_name); }
+            if (parsed.register_no) { updates.push("register_no = ?"); params.push(parsed.register_no); }
+            if (parsed.admission_date) { updates.push("admission_date = ?"); params.push(parsed.admission_date); }
+            if (parsed.gender) { updates.push("gender = ?"); params.push(parsed.gender); }
+            if (parsed.birthday) { updates.push("birthday = ?"); params.push(parsed.birthday); }
+            if (parsed.mobileno) { updates.push("mobileno = ?"); params.push(parsed.mobileno); }
+            if (parsed.email) { updates.push("email = ?"); params.push(parsed.email); }
+            if (parsed.parent_id) { updates.push("parent_id = ?"); params.push(parsed.parent_id); }
+            if (parsed.category_id !== undefined) { updates.push("category_id = ?"); params.push(parsed.category_id); }
+            if (parsed.religion) { updates.push("religion = ?"); params.push(parsed.religion); }
+            if (parsed.caste) { updates.push("caste = ?"); params.push(parsed.caste); }
+            if (parsed.blood_group) { updates.push("blood_group = ?"); params.push(parsed.blood_group); }
+            if (parsed.current_address) { updates.push("current_address = ?"); params.push(parsed.current_address); }
+            if (parsed.permanent_address) { updates.push("permanent_address = ?"); params.push(parsed.permanent_address); }
+
+            if (updates.length > 0) {
+                params.push(parsed.id);
+                statements.push({ sql: `UPDATE student SET ${updates.join(", ")} WHERE id = ?`, params });
+            }
+
+            // Update enroll table if class/section changed
+            if (parsed.class_id || parsed.section_id) {
+                const enrollUpdates: string[] = [];
+                const enrollParams: any[] = [];
+                if (parsed.class_id) { enrollUpdates.push("class_id = ?"); enrollParams.push(parsed.class_id); }
+                if (parsed.section_id) { enrollUpdates.push("section_id = ?"); enrollParams.push(parsed.section_id); }
+                enrollParams.push(parsed.id); // student_id
+                // Update the enrollment for the active (or requested) session
+                enrollParams.push(await resolveSessionId(parsed.session_id));
+                statements.push({ sql: `UPDATE enroll SET ${enrollUpdates.join(", ")} WHERE student_id = ? AND session_id = ?`, params: enrollParams });
+            }
+
+            // Student row and enrollment must stay in step
+            if (statements.length > 0) {
+                await pool.batch(statements);
+            }
+
+            return { content: [{ type: "text", text: `Student ${parsed.id} updated.` }] };
+        },
+    }),
+];
@@ -0,0 +1,179 @@
+import { z } from "zod";
+import { pool } from "../db";
+import { resolveSessionId } from "../school-year";
+import { pageArgs, paginate } from "../pagination";
+import { formatArgs, renderPage, renderRows } from "../formatting";
+import { defineTool, ToolDefinition } from "./registry";
+
+// Class, teacher and exam timetables
+export const timetableTools: ToolDefinition[] = [
+    defineTool({
+        name: "create_class_timetable",
+        module: "academic",
+        description: "Add a new entry to class schedule",
+        schema: z.object({
+            class_id: z.number(),
+            section_id: z.number(),
+            subject_id: z.number().optional(),
+            teacher_id: z.number().optional(),
+            time_start: z.string(),
+            time_end: z.string(),
+            class_room: z.string().optional(),
+            day: z.string().describe("Monday, Tuesday, etc."),
+            branch_id: z.number().optional(),
+            is_break: z.boolean().optional(),
+            session_id: z.number().optional().describe("Academic session ID (defaults to the active session)")
+        }),
+        handler: async (parsed) => {
+            const sessionId = await resolveSessionId(parsed.session_id);
+            const [result] = await pool.execute(
+                "INSERT INTO timetable_class (class_id, section_id, subject_id, teacher_id, time_start, time_end, class_room, day, branch_id, session_id, `break`) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+                [parsed.class_id, parsed.section_id, parsed.subject_id || 0, parsed.teacher_id || 0, parsed.time_start, parsed.time_end, parsed.class_room || null, parsed.day, parsed.branch_id || 1, sessionId, parsed.is_break ? 1 : 0]
+            );
+            return { content: [{ type: "text", text: `Timetable entry created. ID: ${(result as any).insertId}` }] };
+        },
+    }),
+    defineTool({
+        name: "list_class_timetable",
+        module: "academic",
+        description: "Get full weekly schedule for a class/section",
+        schema: z.object({
+            class_id: z.number(),
+            section_id: z.number(),
+            session_id: z.number().optional().describe("Academic session ID (defaults to the active session)"),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            const sessionId = await resolveSessionId(parsed.session_id);
+            const query = `
+                SELECT tc.*, s.name as subject_name, st.name as teacher_name,
+                    FIELD(tc.day, 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday') as day_order
+                FROM timetable_class tc
+                LEFT JOIN subject s ON tc.subject_id = s.id
+                LEFT JOIN staff st ON tc.teacher_id = st.id
+                WHERE tc.class_id = ? AND tc.section_id = ? AND tc.session_id = ?
+            `;
+            const page = await paginate(query, [parsed.class_id, parsed.section_id, sessionId], [["day_order", "ASC"], ["time_start", "ASC"], ["id", "ASC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+    defineTool({
+        name: "delete_class_timetable",
+        module: "academic",
+        description: "Remove an entry from class schedule",
+        schema: z.object({
+            id: z.number()
+        }),
+        handler: async ({ id }) => {
+            await pool.execute("DELETE FROM timetable_class WHERE id = ?", [id]);
+            return { content: [{ type: "text", text: `Timetable entry ${id} deleted.` }] };
+        },
+    }),
+    defineTool({
+        name: "get_teacher_schedule",
+        module: "academic",
+        description: "Get all classes assigned to a teacher for the week",
+        schema: z.object({
+            teacher_id: z.number(),
+            session_id: z.number().optional().describe("Academic session ID (defaults to the active session)"),
+            ...formatArgs
+        }),
+        handler: async ({ teacher_id, session_id, ...format }) => {
+            const sessionId = await resolveSessionId(session_id);
+            const query = `
+                SELECT tc.*, c.name as class_name, se.name as section_name, s.name as subject_name
+                FROM timetable_class tc
+                JOIN class c ON tc.class_id = c.id
+                JOIN section se ON tc.section_id = se.id
+                JOIN subject s ON tc.subject_id = s.id
+                WHERE tc.teacher_id = ? AND tc.session_id = ?
+                ORDER BY FIELD(tc.day, 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'), tc.time_start
+            `;
+            const [rows] = await pool.execute(query, [teacher_id, sessionId]);
+            return { content: renderRows(rows, format) };
+        },
+    }),
+    defineTool({
+        name: "get_exam_timetable",
+        module: "exam_master",
+        description: "Get exam schedule for a class/section",
+        schema: z.object({
+            class_id: z.number(),
+            section_id: z.number(),
+            exam_id: z.number(),
+            session_id: z.number().optional().describe("Academic session ID (defaults to the active session)"),
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            const sessionId = await resolveSessionId(parsed.session_id);
+            const query = "SELECT * FROM timetable_exam WHERE class_id = ? AND section_id = ? AND exam_id = ? AND session_id = ?";
+            const [rows] = await pool.execute(query, [parsed.class_id, parsed.section_id, parsed.exam_id, sessionId]);
+            return { content: renderRows(rows, parsed) };
+        },
+    }),
+    defineTool({
+        name: "create_exam_timetable",
+        module: "exam_master",
+        description: "Add or update an entry in the exam schedule",
+        schema: z.object({
+            exam_id: z.number(),
+            class_id: z.number(),
+            section_id: z.number(),
+            subject_id: z.number(),
+            time_start: z.string(),
+            time_end: z.string(),
+            hall_id: z.number().optional(),
+            exam_date: z.string().describe("YYYY-MM-DD"),
+            mark_distribution: z.string().optional().describe("JSON string"),
+            branch_id: z.number().optional(),
+            session_id: z.number().optional().describe("Academic session ID (defaults to the active session)")
+        }),
+        handler: async (parsed) => {
+            const sessionId = await resolveSessionId(parsed.session_id);
+            // Check if exists
+            const [existing] = await pool.execute(
+                "SELECT id FROM timetable_exam WHERE exam_id = ? AND class_id = ? AND section_id = ? AND subject_id = ? AND session_id = ?",
+                [parsed.exam_id, parsed.class_id, parsed.section_id, parsed.subject_id, sessionId]
+            );
+            if ((existing as any[]).length > 0) {
+                await pool.execute(
+                    "UPDATE timetable_exam SET time_start = ?, time_end = ?, hall_id = ?, exam_date = ?, mark_distribution = ? WHERE id = ?",
+                    [parsed.time_start, parsed.time_end, parsed.hall_id || 0, parsed.exam_date, parsed.mark_distribution || '[]', (existing as any[])[0].id]
+                );
+                return { content: [{ type: "text", text: "Exam timetable updated." }] };
+            } else {
+                await pool.execute(
+                    "INSERT INTO timetable_exam (exam_id, class_id, section_id, subject_id, time_start, time_end, hall_id, exam_date, mark_distribution, branch_id, session_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+                    [parsed.exam_id, parsed.class_id, parsed.section_id, parsed.subject_id, parsed.time_start, parsed.time_end, parsed.hall_id || 0, parsed.exam_date, parsed.mark_distribution || '[]', parsed.branch_id || 1, sessionId]
+                );
+                return { content: [{ type: "text", text: "Exam timetable created." }] };
+            }
+        },
+    }),
+    defineTool({
+        name: "list_exam_timetable",
+        module: "exam_master",
+        description: "Get complete exam schedule for a specific exam and class",
+        schema: z.object({
+            exam_id: z.number(),
+            class_id: z.number(),
+            section_id: z.number(),
+            session_id: z.number().optional().describe("Academic session ID (defaults to the active session)"),
+            ...pageArgs,
+            ...formatArgs
+        }),
+        handler: async (parsed) => {
+            const sessionId = await resolveSessionId(parsed.session_id);
+            const query = `
+                SELECT t.*, s.name as subject_name, eh.hall_no
+                FROM timetable_exam t
+                LEFT JOIN subject s ON t.subject_id = s.id
+                LEFT JOIN exam_hall eh ON t.hall_id = eh.id
+                WHERE t.exam_id = ? AND t.class_id = ? AND t.section_id = ? AND t.session_id = ?
+            `;
+            const page = await paginate(query, [parsed.exam_id, parsed.class_id, parsed.section_id, sessionId], [["exam_date", "ASC"], ["time_start", "ASC"], ["id", "ASC"]], parsed);
+            return { content: renderPage(page, parsed) };
+        },
+    }),
+];
@@ -0,0 +1,41 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { createHarness, text } from "./support/harness";
+
+const SCHOOL = {
+    class: [{ id: 1, name: "Class 1", branch_id: 1 }],
+    section: [{ id: 1, name: "A", branch_id: 1 }],
+};
+
+test("created rows are recorded by table, with the arguments the tool ran with", async () => {
+    const harness = await createHarness(SCHOOL);
+
+    await harness.callTool("create_student", {
+        first_name: "Asha", last_name: "Verma", register_no: "R-1", admission_date: "2026-04-01", class_id: 1, section_id: 1, nickname: "Ash",
+    });
+
+    const [entry] = harness.driver.rows("mcp_audit_log");
+    assert.equal(entry.tool, "create_student");
+    assert.deepEqual(JSON.parse(entry.affected_ids), { class: [1], section: [1], student: [1], enroll: [1], login_credential: [1] });
+    // Validation drops arguments the tool doesn't take
+    assert.equal(JSON.parse(entry.arguments).nickname, undefined);
+});
+
+test("records named by entity or by a reference argument are recorded", async () => {
+    const harness = await createHarness({
+        enquiry: [
+            { id: 1, name: "Mohammed Khan", mobile_no: "9000000001", branch_id: 1, status: "active" },
+            { id: 2, name: "Mohammad Khan", mobile_no: "9000000001", branch_id: 1, status: "active" },
+        ],
+    });
+
+    await harness.callTool("merge_records", { entity: "inquiry", keep_id: 1, merge_ids: [2] });
+    await harness.callTool("create_inquiry_follow_up", { enquiry_id: 1, date: "2026-10-01", next_date: "2026-10-05" });
+
+    const entries = harness.driver.rows("mcp_audit_log");
+    assert.deepEqual(JSON.parse(entries[0].affected_ids), { enquiry: [1, 2] });
+    assert.deepEqual(JSON.parse(entries[1].affected_ids), { enquiry: [1], enquiry_follow_up: [1] });
+
+    const log = JSON.parse(text(await harness.callTool("list_audit_log", { affected_table: "enquiry", affected_id: 2 })));
+    assert.deepEqual(log.items.map((item: { tool: string }) => item.tool), ["merge_records"]);
+});
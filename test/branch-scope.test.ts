@@ -0,0 +1,70 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { createHarness, text } from "./support/harness";
+
+// Role 2 holds every right below; odd IDs belong to branch 1, even IDs to branch 2
+const BRANCHES = {
+    branch: [{ id: 1, name: "Main" }, { id: 2, name: "East" }],
+    staff: [{ id: 1, name: "Meena", branch_id: 1 }, { id: 2, name: "Arun", branch_id: 2 }],
+    enroll: [{ id: 1, student_id: 1, class_id: 1, section_id: 1, session_id: 1, branch_id: 1 }],
+    complaint_type: [{ id: 1, name: "Transport", branch_id: 1 }, { id: 2, name: "Canteen", branch_id: 2 }],
+    visitor_purpose: [{ id: 1, name: "Meeting", branch_id: 1 }, { id: 2, name: "Delivery", branch_id: 2 }],
+    fees_type: [{ id: 1, name: "Tuition", branch_id: 1 }, { id: 2, name: "Bus", branch_id: 2 }],
+    fee_allocation: [{ id: 1, student_id: 1, group_id: 1, session_id: 1, branch_id: 1 }],
+    voucher_head: [{ id: 1, name: "Stationery", type: "expense", branch_id: 1 }],
+    accounts: [{ id: 1, name: "Cash", branch_id: 1 }, { id: 2, name: "Bank", branch_id: 2 }],
+    staff_department: [{ id: 1, name: "Science", branch_id: 1 }, { id: 2, name: "Arts", branch_id: 2 }],
+    product: [{ id: 1, name: "Notebook", available_stock: 10, branch_id: 1 }],
+    permission: [
+        { id: 1, prefix: "complaint" }, { id: 2, prefix: "visitor_log" }, { id: 3, prefix: "collect_fees" },
+        { id: 4, prefix: "expense" }, { id: 5, prefix: "employee" }, { id: 6, prefix: "product_issue" },
+    ],
+    staff_privileges: [1, 2, 3, 4, 5, 6].map((permission_id) => ({ role_id: 2, permission_id, is_view: 1, is_add: 1, is_edit: 1 })),
+};
+
+const refused = (result: { content: unknown[]; isError?: boolean }, pattern: RegExp) => {
+    assert.equal(result.isError, true, text(result));
+    assert.match(text(result), pattern);
+};
+
+test("records can't be attached to another branch's lookup rows", async () => {
+    const harness = await createHarness(BRANCHES);
+    const admin = harness.as({ userId: 1, roleId: 2, branchId: 1 });
+
+    refused(await admin.callTool("create_complaint", { complainant_name: "Raj", date: "2026-10-01", type_id: 2 }), /complaint_type 2 not found in branch 1/);
+    refused(await admin.callTool("create_complaint", { complainant_name: "Raj", date: "2026-10-01", assigned_id: 2 }), /staff 2 not found in branch 1/);
+    refused(await admin.callTool("create_visitor_log", { name: "Raj", date: "2026-10-01", purpose_id: 2 }), /visitor_purpose 2 not found in branch 1/);
+    refused(await admin.callTool("add_expense", { voucher_head_id: 1, amount: 10, date: "2026-10-01", account_id: 2 }), /accounts 2 not found in branch 1/);
+    refused(await admin.callTool("create_staff", { name: "Lata", role_id: 3, department_id: 2 }), /staff_department 2 not found in branch 1/);
+
+    assert.deepEqual(harness.driver.rows("complaint"), []);
+    assert.deepEqual(harness.driver.rows("visitor_log"), []);
+    assert.deepEqual(harness.driver.rows("transactions"), []);
+
+    const own = await admin.callTool("create_complaint", { complainant_name: "Raj", date: "2026-10-01", type_id: 1, assigned_id: 1 });
+    assert.equal(own.isError, undefined, text(own));
+});
+
+test("fee types are checked in each payment of a bulk collection", async () => {
+    const harness = await createHarness(BRANCHES);
+    const admin = harness.as({ userId: 1, roleId: 2, branchId: 1 });
+
+    const result = await admin.callTool("bulk_collect_fees", {
+        payments: [{ allocation_id: 1, type_id: 1, amount: 100, date: "2026-10-01" }, { allocation_id: 1, type_id: 2, amount: 50, date: "2026-10-01" }],
+    });
+
+    refused(result, /fees_type 2 not found in branch 1/);
+    assert.deepEqual(harness.driver.rows("fee_payment_history"), []);
+});
+
+test("products are issued only to the branch's own students and staff", async () => {
+    const harness = await createHarness(BRANCHES);
+    const admin = harness.as({ userId: 1, roleId: 2, branchId: 1 });
+    const issue = (role_id: number, user_id: number) =>
+        admin.callTool("create_product_issue", { role_id, user_id, date_of_issue: "2026-10-01", items: [{ product_id: 1, quantity: 1 }] });
+
+    refused(await issue(3, 2), /staff 2 not found in branch 1/);
+    refused(await issue(7, 2), /student 2 not found in branch 1/);
+    assert.equal((await issue(7, 1)).isError, undefined);
+    assert.equal((await issue(3, 1)).isError, undefined);
+});
@@ -0,0 +1,94 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { createHarness, text } from "./support/harness";
+
+const SCHOOL = {
+    class: [{ id: 1, name: "Class 1", branch_id: 1 }],
+    section: [{ id: 1, name: "A", branch_id: 1 }],
+    parent: [{ id: 5, name: "Suresh Kumar", mobileno: "9000000005", branch_id: 1 }],
+    enquiry: [
+        {
+            id: 1, name: "Asha Rani Verma", mobile_no: "9000000001", email: "asha@example.com", father_name: "Raj Verma",
+            class_id: 1, status: "active", branch_id: 1, date: "2026-06-01"
+        },
+        { id: 2, name: "Ravi Kumar", mobile_no: "9000000005", status: "active", branch_id: 1, date: "2026-06-01" },
+    ],
+};
+
+const ADMISSION = { section_id: 1, register_no: "R-1", admission_date: "2026-06-10" };
+
+test("an inquiry becomes a parent, a student, an enrollment and logins, and is marked converted", async () => {
+    const harness = await createHarness(SCHOOL);
+
+    const result = await harness.callTool("convert_inquiry_to_admission", { enquiry_id: 1, ...ADMISSION });
+
+    assert.equal(result.isError, undefined, text(result));
+    assert.match(text(result), /Inquiry 1 converted\. Student ID: 1 \(new parent 6\), enrolled in class 1 section 1/);
+
+    const parent = harness.driver.rows("parent").find((row) => row.id === 6);
+    assert.equal(parent.name, "Raj Verma");
+    assert.equal(parent.relation, "Father");
+    const [student] = harness.driver.rows("student");
+    assert.deepEqual([student.first_name, student.last_name, student.parent_id], ["Asha Rani", "Verma", 6]);
+    assert.deepEqual(
+        harness.driver.rows("enroll").map(({ student_id, class_id, section_id, session_id, branch_id }) => ({ student_id, class_id, section_id, session_id, branch_id })),
+        [{ student_id: 1, class_id: 1, section_id: 1, session_id: 1, branch_id: 1 }]
+    );
+    assert.equal(harness.driver.rows("enquiry")[0].status, "converted");
+    assert.deepEqual(
+        harness.driver.rows("mcp_inquiry_admission").map(({ enquiry_id, student_id, parent_id }) => ({ enquiry_id, student_id, parent_id })),
+        [{ enquiry_id: 1, student_id: 1, parent_id: 6 }]
+    );
+});
+
+test("logins use RAMOM's parent (6) and student (7) roles", async () => {
+    const harness = await createHarness(SCHOOL);
+
+    await harness.callTool("convert_inquiry_to_admission", { enquiry_id: 1, ...ADMISSION });
+
+    assert.deepEqual(
+        harness.driver.rows("login_credential").map(({ user_id, role }) => ({ user_id, role })),
+        [{ user_id: 6, role: 6 }, { user_id: 1, role: 7 }]
+    );
+});
+
+test("a parent with the inquiry's mobile number is linked instead of created", async () => {
+    const harness = await createHarness(SCHOOL);
+
+    const result = await harness.callTool("convert_inquiry_to_admission", { enquiry_id: 2, class_id: 1, ...ADMISSION });
+
+    assert.match(text(result), /linked to existing parent 5/);
+    assert.equal(harness.driver.rows("parent").length, 1);
+    assert.equal(harness.driver.rows("student")[0].parent_id, 5);
+});
+
+test("an inquiry is converted only once", async () => {
+    const harness = await createHarness(SCHOOL);
+    await harness.callTool("convert_inquiry_to_admission", { enquiry_id: 1, ...ADMISSION });
+
+    const again = await harness.callTool("convert_inquiry_to_admission", { enquiry_id: 1, ...ADMISSION, register_no: "R-2" });
+
+    assert.equal(again.isError, true);
+    assert.match(text(again), /already converted to student 1/);
+    assert.equal(harness.driver.rows("student").length, 1);
+});
+
+test("an inquiry without a class needs class_id", async () => {
+    const harness = await createHarness(SCHOOL);
+
+    const result = await harness.callTool("convert_inquiry_to_admission", { enquiry_id: 2, ...ADMISSION });
+
+    assert.equal(result.isError, true);
+    assert.match(text(result), /has no class; pass class_id/);
+    assert.deepEqual(harness.driver.rows("student"), []);
+});
+
+test("a dry run of a conversion writes nothing", async () => {
+    const harness = await createHarness(SCHOOL);
+
+    const preview = JSON.parse(text(await harness.callTool("convert_inquiry_to_admission", { enquiry_id: 1, ...ADMISSION, dry_run: true })));
+
+    assert.equal(preview.statements.length, 7);
+    assert.deepEqual(harness.driver.rows("student"), []);
+    assert.equal(harness.driver.rows("enquiry")[0].status, "active");
+});
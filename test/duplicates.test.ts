@@ -0,0 +1,131 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { createHarness, text } from "./support/harness";
+
+const FAMILIES = {
+    class: [{ id: 1, name: "Class 1", branch_id: 1 }],
+    section: [{ id: 1, name: "A", branch_id: 1 }],
+    parent: [
+        { id: 1, name: "Raj Verma", mobileno: "+91 98765-43210", branch_id: 1 },
+        { id: 2, name: "Rajesh Varma", mobileno: "09876543210", branch_id: 1 },
+        { id: 3, name: "Someone Else", mobileno: "9111111111", branch_id: 1 },
+    ],
+    student: [
+        { id: 1, first_name: "Asha", last_name: "Verma", birthday: "2015-04-01", parent_id: 1, mobileno: "9876543210" },
+        { id: 2, first_name: "Aasha", last_name: "Varma", birthday: "2015-04-01", parent_id: 2 },
+        // Same name and number, but a different date of birth: a sibling, not a duplicate
+        { id: 3, first_name: "Asha", last_name: "Verma", birthday: "2016-04-01", parent_id: 1, mobileno: "9876543210" },
+    ],
+    enroll: [
+        { id: 1, student_id: 1, class_id: 1, section_id: 1, session_id: 1, branch_id: 1 },
+        { id: 2, student_id: 2, class_id: 1, section_id: 1, session_id: 1, branch_id: 1 },
+        { id: 3, student_id: 2, class_id: 1, section_id: 1, session_id: 2, branch_id: 1 },
+        { id: 4, student_id: 3, class_id: 1, section_id: 1, session_id: 1, branch_id: 1 },
+    ],
+    student_attendance: [{ id: 1, enroll_id: 2, status: "P", date: "2026-01-01", branch_id: 1 }],
+    mark: [
+        { id: 1, student_id: 1, exam_id: 1, subject_id: 1, mark: "50" },
+        { id: 2, student_id: 2, exam_id: 1, subject_id: 1, mark: "40" },
+        { id: 3, student_id: 2, exam_id: 1, subject_id: 2, mark: "45" },
+    ],
+    fee_allocation: [{ id: 1, student_id: 2, group_id: 1, session_id: 1, branch_id: 1 }],
+    student_leave: [{ id: 1, student_id: 2, leave_from: "2026-02-01", leave_to: "2026-02-02", branch_id: 1 }],
+    login_credential: [
+        { id: 50, user_id: 2, username: "student2", role: 7 },
+        { id: 51, user_id: 2, username: "parent2", role: 6 },
+    ],
+    enquiry: [
+        { id: 1, name: "Mohammed Khan", mobile_no: "9000000001", branch_id: 1, status: "active" },
+        { id: 2, name: "Mohammad Khan", mobile_no: "+919000000001", branch_id: 1, status: "active" },
+    ],
+    enquiry_follow_up: [{ id: 1, enquiry_id: 2, date: "2026-01-01" }],
+};
+
+test("find_duplicates pairs records by phonetic name plus a shared detail", async () => {
+    const harness = await createHarness(FAMILIES);
+
+    const pairs = async (entity: string) => JSON.parse(text(await harness.callTool("find_duplicates", { entity })));
+
+    assert.deepEqual(await pairs("student"), [{ id: 1, name: "Asha Verma", duplicate_id: 2, duplicate_name: "Aasha Varma", reasons: "name, birthday" }]);
+    assert.deepEqual(await pairs("parent"), [{ id: 1, name: "Raj Verma", duplicate_id: 2, duplicate_name: "Rajesh Varma", reasons: "mobile" }]);
+    assert.deepEqual(await pairs("inquiry"), [{ id: 1, name: "Mohammed Khan", duplicate_id: 2, duplicate_name: "Mohammad Khan", reasons: "name, mobile" }]);
+});
+
+test("creating a record like an existing one warns, fetching only records that share a detail", async () => {
+    const harness = await createHarness(FAMILIES);
+    const queries: string[] = [];
+    const execute = harness.driver.execute.bind(harness.driver);
+    harness.driver.execute = (sql, params) => {
+        queries.push(sql);
+        return execute(sql, params);
+    };
+
+    const inquiry = await harness.callTool("create_inquiry", { name: "Mohamad Khan", mobile_no: "90000 00001", date: "2026-10-01", branch_id: 1 });
+    const unrelated = await harness.callTool("create_inquiry", { name: "New Family", mobile_no: "9222222222", date: "2026-10-01", branch_id: 1 });
+
+    assert.match(text(inquiry), /Warning: possible duplicate of inquiry 1 "Mohammed Khan" \(name, mobile\); inquiry 2 "Mohammad Khan" \(name, mobile\)/);
+    assert.doesNotMatch(text(unrelated), /Warning/);
+    const lookups = queries.filter((sql) => sql.startsWith("SELECT id, name, mobile_no AS mobile"));
+    assert.equal(lookups.length, 2);
+    assert.ok(lookups.every((sql) => /LIKE \?/.test(sql)), "candidates are narrowed in SQL");
+});
+
+test("a record without a mobile number, email or date of birth is not compared", async () => {
+    const harness = await createHarness(FAMILIES);
+
+    const result = await harness.callTool("create_student", {
+        first_name: "Asha", last_name: "Verma", register_no: "R-9", admission_date: "2026-04-01", class_id: 1, section_id: 1,
+    });
+
+    assert.doesNotMatch(text(result), /Warning/);
+});
+
+test("merging students moves their records to the kept student and deletes the duplicate", async () => {
+    const harness = await createHarness(FAMILIES);
+
+    const result = await harness.callTool("merge_records", { entity: "student", keep_id: 1, merge_ids: [2] });
+
+    assert.equal(result.isError, undefined, text(result));
+    assert.deepEqual(harness.driver.rows("student").map((row) => row.id), [1, 3]);
+    // Session 1 already had an enrollment for student 1, so the duplicate's is dropped and its attendance moves over
+    assert.deepEqual(harness.driver.rows("enroll").map(({ id, student_id }) => ({ id, student_id })), [
+        { id: 1, student_id: 1 }, { id: 3, student_id: 1 }, { id: 4, student_id: 3 },
+    ]);
+    assert.equal(harness.driver.rows("student_attendance")[0].enroll_id, 1);
+    assert.deepEqual(harness.driver.rows("mark").map(({ id, student_id }) => ({ id, student_id })), [{ id: 1, student_id: 1 }, { id: 3, student_id: 1 }]);
+    assert.equal(harness.driver.rows("fee_allocation")[0].student_id, 1);
+    assert.equal(harness.driver.rows("student_leave")[0].student_id, 1);
+    // Only the student's login goes; a parent with the same user_id keeps theirs
+    assert.deepEqual(harness.driver.rows("login_credential").map((row) => row.username), ["parent2"]);
+});
+
+test("merging keeps admission links pointing at surviving records", async () => {
+    const harness = await createHarness(FAMILIES);
+    await harness.callTool("convert_inquiry_to_admission", { enquiry_id: 1, class_id: 1, section_id: 1, register_no: "R-5", admission_date: "2026-06-01", parent_id: 2 });
+    harness.driver.db.exec(`CREATE TABLE IF NOT EXISTS mcp_online_admission_review (
+        online_admission_id INTEGER PRIMARY KEY, decision TEXT, reason TEXT, student_id INTEGER, parent_id INTEGER,
+        branch_id INTEGER, reviewed_by INTEGER, reviewed_at TEXT
+    )`);
+    harness.driver.db.exec("INSERT INTO mcp_online_admission_review VALUES (1, 'approved', NULL, 2, 2, 1, 1, '2026-06-01')");
+
+    await harness.callTool("merge_records", { entity: "student", keep_id: 1, merge_ids: [2] });
+    await harness.callTool("merge_records", { entity: "parent", keep_id: 1, merge_ids: [2] });
+
+    const [review] = harness.driver.rows("mcp_online_admission_review");
+    assert.deepEqual([review.student_id, review.parent_id], [1, 1]);
+    assert.equal(harness.driver.rows("mcp_inquiry_admission")[0].parent_id, 1);
+    assert.deepEqual(harness.driver.rows("parent").map((row) => row.id), [1, 3]);
+    // The parent login (role 6) of parent 2 is gone
+    assert.deepEqual(harness.driver.rows("login_credential").filter((row) => row.user_id === 2), []);
+});
+
+test("merge_records refuses to keep a record it is told to merge, or one that doesn't exist", async () => {
+    const harness = await createHarness(FAMILIES);
+
+    const self = await harness.callTool("merge_records", { entity: "student", keep_id: 1, merge_ids: [1] });
+    const missing = await harness.callTool("merge_records", { entity: "student", keep_id: 1, merge_ids: [99] });
+
+    assert.match(text(self), /keep_id cannot also be in merge_ids/);
+    assert.match(text(missing), /student 99 not found/);
+    assert.equal(harness.driver.rows("student").length, 3);
+});
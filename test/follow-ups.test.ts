@@ -0,0 +1,94 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { createHarness, text } from "./support/harness";
+
+const QUEUE = {
+    staff: [{ id: 1, name: "Meena", branch_id: 1 }, { id: 2, name: "Arun", branch_id: 1 }],
+    enquiry: [
+        { id: 1, name: "Asha", created_by: 1, status: "active", branch_id: 1 },
+        { id: 2, name: "Ravi", created_by: 1, status: "active", branch_id: 1 },
+        { id: 3, name: "Kiran", created_by: 2, status: "active", branch_id: 1 },
+        { id: 4, name: "Admitted", created_by: 2, status: "converted", branch_id: 1 },
+        { id: 5, name: "Called again", created_by: 2, status: "active", branch_id: 1 },
+        { id: 6, name: "Later", created_by: 1, status: "active", branch_id: 1 },
+        { id: 7, name: "Other branch", created_by: 1, status: "active", branch_id: 2 },
+    ],
+    enquiry_follow_up: [
+        { enquiry_id: 1, date: "2026-10-01", next_date: "2026-10-10", response: "Asked for fee details" },
+        { enquiry_id: 2, date: "2026-10-05", next_date: "2026-10-12" },
+        { enquiry_id: 3, date: "2026-10-02", next_date: "2026-10-08" },
+        { enquiry_id: 4, date: "2026-10-01", next_date: "2026-10-05" },
+        // Superseded by the later call, whose next date isn't due yet
+        { enquiry_id: 5, date: "2026-10-01", next_date: "2026-10-03" },
+        { enquiry_id: 5, date: "2026-10-09", next_date: "2026-10-20" },
+        { enquiry_id: 6, date: "2026-10-09", next_date: "2026-10-15" },
+        { enquiry_id: 7, date: "2026-10-01", next_date: "2026-10-02" },
+    ],
+};
+
+test("open inquiries whose latest follow-up is due are listed by staff member", async () => {
+    const harness = await createHarness(QUEUE);
+
+    const page = JSON.parse(text(await harness.callTool("list_due_follow_ups", { as_of: "2026-10-12", branch_id: 1 })));
+
+    assert.equal(page.total, 3);
+    assert.deepEqual(
+        page.items.map(({ staff_name, enquiry_id, days_overdue }: Record<string, unknown>) => ({ staff_name, enquiry_id, days_overdue })),
+        [
+            { staff_name: "Arun", enquiry_id: 3, days_overdue: 4 },
+            { staff_name: "Meena", enquiry_id: 1, days_overdue: 2 },
+            { staff_name: "Meena", enquiry_id: 2, days_overdue: 0 },
+        ]
+    );
+    assert.equal(page.items[1].last_response, "Asked for fee details");
+});
+
+test("the queue is paged", async () => {
+    const harness = await createHarness(QUEUE);
+
+    const first = JSON.parse(text(await harness.callTool("list_due_follow_ups", { as_of: "2026-10-12", branch_id: 1, limit: 2 })));
+    const second = JSON.parse(text(await harness.callTool("list_due_follow_ups", { as_of: "2026-10-12", branch_id: 1, limit: 2, cursor: first.next_cursor })));
+
+    assert.deepEqual(first.items.map((item: { enquiry_id: number }) => item.enquiry_id), [3, 1]);
+    assert.deepEqual(second.items.map((item: { enquiry_id: number }) => item.enquiry_id), [2]);
+    assert.equal(second.next_cursor, null);
+});
+
+test("the digest resource counts due and overdue call-backs per staff member in the caller's branch", async () => {
+    const harness = await createHarness({
+        ...QUEUE,
+        permission: [{ id: 1, prefix: "admission_enquiry" }],
+        staff_privileges: [{ role_id: 8, permission_id: 1, is_view: 1 }],
+    });
+    const receptionist = harness.as({ userId: 9, roleId: 8, branchId: 1 });
+
+    const result = await receptionist.request("resources/read", { uri: "inquiries://follow-ups/due/2026-10-12" });
+    const digest = JSON.parse(result.contents[0].text);
+
+    assert.deepEqual(digest, {
+        as_of: "2026-10-12",
+        total: 3,
+        due_today: 1,
+        overdue: 2,
+        staff: [
+            { staff_id: 2, staff_name: "Arun", oldest_next_date: "2026-10-08", due_today: 0, overdue: 1 },
+            { staff_id: 1, staff_name: "Meena", oldest_next_date: "2026-10-10", due_today: 1, overdue: 1 },
+        ],
+    });
+});
+
+test("inquiries created through the server are queued under the staff member who created them", async () => {
+    const harness = await createHarness({
+        ...QUEUE,
+        permission: [{ id: 1, prefix: "admission_enquiry" }],
+        staff_privileges: [{ role_id: 8, permission_id: 1, is_view: 1, is_add: 1 }],
+    });
+    const arun = harness.as({ userId: 2, roleId: 8, branchId: 1 });
+
+    await arun.callTool("create_inquiry", { name: "Farah", mobile_no: "9333333333", date: "2026-10-11" });
+    await arun.callTool("create_inquiry_follow_up", { enquiry_id: 8, date: "2026-10-11", next_date: "2026-10-12" });
+    const page = JSON.parse(text(await arun.callTool("list_due_follow_ups", { as_of: "2026-10-12" })));
+
+    assert.equal(harness.driver.rows("enquiry").find((row) => row.id === 8).created_by, 2);
+    assert.deepEqual(page.items.filter((item: { staff_id: number }) => item.staff_id === 2).map((item: { enquiry_id: number }) => item.enquiry_id), [3, 8]);
+});
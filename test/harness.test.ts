@@ -0,0 +1,86 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { createHarness, text } from "./support/harness";
+
+const SCHOOL = {
+    class: [{ id: 1, name: "Class 1", branch_id: 1 }],
+    section: [{ id: 1, name: "A", branch_id: 1 }],
+};
+
+const NEW_STUDENT = {
+    first_name: "Asha", last_name: "Verma", register_no: "R-1", admission_date: "2026-04-01", class_id: 1, section_id: 1,
+};
+
+test("create_student writes the student, its enrollment in the active session and a login", async () => {
+    const harness = await createHarness(SCHOOL);
+
+    const result = await harness.callTool("create_student", NEW_STUDENT);
+
+    assert.equal(result.isError, undefined, text(result));
+    assert.match(text(result), /Student created\. ID: 1/);
+    const [student] = harness.driver.rows("student");
+    assert.equal(student.first_name, "Asha");
+    assert.equal(student.register_no, "R-1");
+    assert.deepEqual(
+        harness.driver.rows("enroll").map(({ student_id, class_id, section_id, session_id, branch_id }) => ({ student_id, class_id, section_id, session_id, branch_id })),
+        [{ student_id: 1, class_id: 1, section_id: 1, session_id: 1, branch_id: 1 }]
+    );
+    const [login] = harness.driver.rows("login_credential");
+    assert.deepEqual([login.user_id, login.role], [1, 7]);
+});
+
+test("update_student moves the enrollment, not the student row, to the new class", async () => {
+    const harness = await createHarness({
+        ...SCHOOL,
+        class: [...SCHOOL.class, { id: 2, name: "Class 2", branch_id: 1 }],
+        student: [{ id: 1, first_name: "Asha", last_name: "Verma" }],
+        enroll: [{ id: 1, student_id: 1, class_id: 1, section_id: 1, session_id: 1, branch_id: 1 }],
+    });
+
+    const result = await harness.callTool("update_student", { id: 1, class_id: 2, first_name: "Aasha" });
+
+    assert.equal(result.isError, undefined, text(result));
+    assert.equal(harness.driver.rows("student")[0].first_name, "Aasha");
+    assert.equal(harness.driver.rows("enroll")[0].class_id, 2);
+});
+
+test("a dry run reports the planned statements and writes nothing", async () => {
+    const harness = await createHarness(SCHOOL);
+
+    const preview = JSON.parse(text(await harness.callTool("create_student", { ...NEW_STUDENT, dry_run: true })));
+
+    assert.equal(preview.dry_run, true);
+    assert.deepEqual(preview.statements.map((statement: { sql: string }) => statement.sql.match(/INSERT INTO (\w+)/)?.[1]), ["student", "enroll", "login_credential"]);
+    assert.deepEqual(harness.driver.rows("student"), []);
+});
+
+test("a branch key cannot reach another branch's records", async () => {
+    const harness = await createHarness({
+        ...SCHOOL,
+        branch: [{ id: 1, name: "Main" }, { id: 2, name: "East" }],
+        permission: [{ id: 1, prefix: "student" }],
+        staff_privileges: [{ role_id: 2, permission_id: 1, is_view: 1 }],
+        student: [{ id: 1, first_name: "Asha" }, { id: 2, first_name: "Ravi" }],
+        enroll: [
+            { student_id: 1, class_id: 1, section_id: 1, session_id: 1, branch_id: 1 },
+            { student_id: 2, class_id: 3, section_id: 3, session_id: 1, branch_id: 2 },
+        ],
+    });
+    const admin = harness.as({ userId: 5, roleId: 2, branchId: 1 });
+
+    assert.equal((await admin.callTool("get_student", { id: 1 })).isError, undefined);
+    const foreign = await admin.callTool("get_student", { id: 2 });
+    assert.equal(foreign.isError, true);
+    assert.match(text(foreign), /student 2 not found in branch 1/);
+    await assert.rejects(admin.callTool("create_student", NEW_STUDENT), /not permitted to call create_student/);
+});
+
+test("a failed batch rolls back every statement", async () => {
+    const harness = await createHarness({ ...SCHOOL, login_credential: [{ id: 1, user_id: 9, username: "taken", role: 7 }] });
+    harness.driver.db.exec("CREATE UNIQUE INDEX login_username ON login_credential (username)");
+
+    await assert.rejects(harness.callTool("create_student", { ...NEW_STUDENT, email: "taken" }), /rolled back/);
+
+    assert.deepEqual(harness.driver.rows("student"), []);
+    assert.deepEqual(harness.driver.rows("enroll"), []);
+});
@@ -0,0 +1,78 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { createHarness, text } from "./support/harness";
+
+const SEPTEMBER = { start_date: "2026-09-01", end_date: "2026-09-30" };
+
+// Inquiry 1 is admitted through the tool, 2 was marked converted by hand, 3 went dead and 4 is still open;
+// 5 falls outside September
+const funnelHarness = async () => {
+    const harness = await createHarness({
+        class: [{ id: 1, name: "Class 1", branch_id: 1 }, { id: 2, name: "Class 2", branch_id: 1 }],
+        section: [{ id: 1, name: "A", branch_id: 1 }],
+        staff: [{ id: 1, name: "Admin", branch_id: 1 }, { id: 2, name: "Meena", branch_id: 1 }],
+        enquiry_reference: [{ id: 1, name: "Newspaper", branch_id: 1 }, { id: 2, name: "Walk-in", branch_id: 1 }],
+        enquiry: [
+            { id: 1, name: "Asha Verma", mobile_no: "9000000001", class_id: 1, reference_id: 1, status: "active", branch_id: 1, created_by: 1, date: "2026-09-01" },
+            { id: 2, name: "Ravi", mobile_no: "9000000002", class_id: 1, reference_id: 1, status: "converted", branch_id: 1, created_by: 2, date: "2026-09-02", updated_at: "2026-09-22 10:00:00" },
+            { id: 3, name: "Kiran", mobile_no: "9000000003", class_id: 2, reference_id: 2, status: "dead", branch_id: 1, created_by: 2, date: "2026-09-03" },
+            { id: 4, name: "Meera", mobile_no: "9000000004", class_id: 2, status: "active", branch_id: 1, created_by: 2, date: "2026-09-04" },
+            { id: 5, name: "Old", mobile_no: "9000000005", class_id: 2, status: "active", branch_id: 1, created_by: 2, date: "2026-08-04" },
+        ],
+        enquiry_follow_up: [{ enquiry_id: 1, date: "2026-09-02" }, { enquiry_id: 3, date: "2026-09-05" }],
+    });
+    await harness.callTool("convert_inquiry_to_admission", { enquiry_id: 1, section_id: 1, register_no: "R-1", admission_date: "2026-09-11" });
+    harness.driver.db.exec("UPDATE mcp_inquiry_admission SET converted_at = '2026-09-11 09:00:00'");
+    return harness;
+};
+
+test("the funnel counts inquiries dated in the period through each stage", async () => {
+    const harness = await funnelHarness();
+
+    const report = JSON.parse(text(await harness.callTool("inquiry_funnel_report", SEPTEMBER)));
+
+    assert.deepEqual(report.total, {
+        inquiries: 4,
+        followed_up: 2,
+        converted: 2,
+        dead: 1,
+        conversion_percentage: 50,
+        // 10 days for the admission, 20 for the inquiry converted by hand
+        median_days_to_conversion: 15,
+    });
+    assert.deepEqual(Object.keys(report), ["start_date", "end_date", "total", "by_source", "by_class", "by_counsellor"]);
+});
+
+test("breakdowns put the best-converting group first", async () => {
+    const harness = await funnelHarness();
+
+    const report = JSON.parse(text(await harness.callTool("inquiry_funnel_report", SEPTEMBER)));
+
+    assert.deepEqual(report.by_source[0], {
+        source_id: 1, source: "Newspaper", inquiries: 2, followed_up: 1, converted: 2, dead: 0, conversion_percentage: 100, median_days_to_conversion: 15,
+    });
+    assert.deepEqual(report.by_class.map((row: { class: string; converted: number }) => [row.class, row.converted]), [["Class 1", 2], ["Class 2", 0]]);
+    assert.deepEqual(report.by_counsellor.map((row: { counsellor: string; inquiries: number }) => [row.counsellor, row.inquiries]), [["Meena", 3], ["Admin", 1]]);
+});
+
+test("group_by selects one breakdown, which table formats render", async () => {
+    const harness = await funnelHarness();
+
+    const report = JSON.parse(text(await harness.callTool("inquiry_funnel_report", { ...SEPTEMBER, group_by: "class" })));
+    const markdown = text(await harness.callTool("inquiry_funnel_report", { ...SEPTEMBER, group_by: "counsellor", format: "markdown" }));
+
+    assert.deepEqual(Object.keys(report), ["start_date", "end_date", "total", "by_class"]);
+    assert.match(markdown, /\| counsellor_id \| counsellor \| inquiries \|/);
+    assert.match(markdown, /\| 2 \| Meena \| 3 \|/);
+});
+
+test("a status set through update_inquiry is counted", async () => {
+    const harness = await funnelHarness();
+
+    const updated = await harness.callTool("update_inquiry", { id: 4, status: "converted" });
+    const report = JSON.parse(text(await harness.callTool("inquiry_funnel_report", SEPTEMBER)));
+
+    assert.equal(updated.isError, undefined, text(updated));
+    assert.equal(harness.driver.rows("enquiry").find((row) => row.id === 4).status, "converted");
+    assert.deepEqual([report.total.converted, report.total.dead, report.total.conversion_percentage], [3, 1, 75]);
+});
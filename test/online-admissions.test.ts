@@ -0,0 +1,105 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { createHarness, text } from "./support/harness";
+
+const APPLICATIONS = {
+    class: [{ id: 1, name: "Class 1", branch_id: 1 }],
+    section: [{ id: 1, name: "A", branch_id: 1 }],
+    parent: [{ id: 5, name: "Suresh Kumar", mobileno: "9000000005", branch_id: 1 }],
+    online_admission: [
+        {
+            id: 1, first_name: "Asha", last_name: "Verma", gender: "female", birthday: "2018-01-02", guardian_name: "Raj Verma",
+            guardian_relation: "Father", grd_mobile_no: "9000000001", grd_email: "raj@example.com", class_id: 1, section_id: 1,
+            branch_id: 1, status: 1, admission_date: "2026-06-01"
+        },
+        { id: 2, first_name: "Ravi", guardian_name: "Suresh Kumar", grd_mobile_no: "9000000005", class_id: 1, branch_id: 1, status: 1 },
+        { id: 3, first_name: "Admitted", status: 2, branch_id: 1 },
+        { id: 4, first_name: "Kiran", status: 1, branch_id: 2 },
+    ],
+    custom_field: [
+        { id: 1, form_to: "online_admission", field_label: "Transport needed", field_order: 2 },
+        { id: 2, form_to: "online_admission", field_label: "Sibling in school", field_order: 1 },
+    ],
+    custom_fields_online_values: [{ relid: 1, field_id: 1, value: "Yes" }, { relid: 1, field_id: 2, value: "No" }],
+};
+
+test("pending applications are listed with their custom form fields", async () => {
+    const harness = await createHarness(APPLICATIONS);
+
+    const page = JSON.parse(text(await harness.callTool("list_online_admissions", {})));
+
+    assert.deepEqual(page.items.map((item: { id: number }) => item.id), [1, 2, 4]);
+    assert.equal(page.items[0].class_name, "Class 1");
+    assert.deepEqual(page.items[0].custom_fields, { "Sibling in school": "No", "Transport needed": "Yes" });
+    assert.deepEqual(page.items[1].custom_fields, {});
+});
+
+test("approving creates the parent, student and enrollment with RAMOM's login roles and marks the application admitted", async () => {
+    const harness = await createHarness(APPLICATIONS);
+
+    const result = await harness.callTool("approve_online_admission", { id: 1, register_no: "R-1" });
+
+    assert.equal(result.isError, undefined, text(result));
+    assert.match(text(result), /Online admission 1 approved\. Student ID: 1 \(new parent 6\), enrolled in class 1 section 1/);
+    const [student] = harness.driver.rows("student");
+    assert.deepEqual([student.first_name, student.birthday, student.admission_date, student.parent_id], ["Asha", "2018-01-02", "2026-06-01", 6]);
+    assert.equal(harness.driver.rows("parent").find((row) => row.id === 6).name, "Raj Verma");
+    assert.deepEqual(
+        harness.driver.rows("login_credential").map(({ user_id, username, role }) => ({ user_id, username, role })),
+        [{ user_id: 6, username: "raj@example.com", role: 6 }, { user_id: 1, username: "student1", role: 7 }]
+    );
+    assert.equal(harness.driver.rows("online_admission")[0].status, 2);
+
+    const approved = JSON.parse(text(await harness.callTool("get_online_admission", { id: 1 })));
+    assert.deepEqual([approved.review_status, approved.admitted_student_id], ["approved", 1]);
+});
+
+test("approval links the guardian's existing parent record and needs a section", async () => {
+    const harness = await createHarness(APPLICATIONS);
+
+    const withoutSection = await harness.callTool("approve_online_admission", { id: 2, register_no: "R-2" });
+    const approved = await harness.callTool("approve_online_admission", { id: 2, register_no: "R-2", section_id: 1 });
+
+    assert.match(text(withoutSection), /has no class or section; pass class_id and section_id/);
+    assert.match(text(approved), /linked to existing parent 5/);
+    assert.equal(harness.driver.rows("parent").length, 1);
+});
+
+test("rejecting records the reason, and a reviewed application cannot be reviewed again", async () => {
+    const harness = await createHarness(APPLICATIONS);
+
+    await harness.callTool("reject_online_admission", { id: 4, reason: "Incomplete documents" });
+    const again = await harness.callTool("approve_online_admission", { id: 4, register_no: "R-4", class_id: 1, section_id: 1 });
+
+    assert.match(text(again), /Online admission 4 was already rejected/);
+    const rejected = JSON.parse(text(await harness.callTool("list_online_admissions", { status: "rejected" })));
+    assert.deepEqual(rejected.items.map(({ id, rejection_reason }: Record<string, unknown>) => ({ id, rejection_reason })), [
+        { id: 4, rejection_reason: "Incomplete documents" },
+    ]);
+    assert.deepEqual(harness.driver.rows("student"), []);
+});
+
+test("an application RAMOM already admitted counts as approved", async () => {
+    const harness = await createHarness(APPLICATIONS);
+
+    const result = await harness.callTool("approve_online_admission", { id: 3, register_no: "R-3", class_id: 1, section_id: 1 });
+    const approved = JSON.parse(text(await harness.callTool("list_online_admissions", { status: "approved" })));
+
+    assert.match(text(result), /Online admission 3 was already approved/);
+    assert.deepEqual(approved.items.map((item: { id: number }) => item.id), [3]);
+});
+
+test("a branch key sees only its branch's applications", async () => {
+    const harness = await createHarness({
+        ...APPLICATIONS,
+        permission: [{ id: 1, prefix: "online_admission" }],
+        staff_privileges: [{ role_id: 2, permission_id: 1, is_view: 1 }],
+    });
+    const admin = harness.as({ userId: 5, roleId: 2, branchId: 2 });
+
+    const page = JSON.parse(text(await admin.callTool("list_online_admissions", {})));
+    const foreign = await admin.callTool("get_online_admission", { id: 1 });
+
+    assert.deepEqual(page.items.map((item: { id: number }) => item.id), [4]);
+    assert.match(text(foreign), /online_admission 1 not found in branch 2/);
+});
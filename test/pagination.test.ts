@@ -0,0 +1,32 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { createHarness, HarnessClient } from "./support/harness";
+
+// Follows next_cursor to the end, collecting the IDs of every page
+const walk = async (client: HarnessClient, tool: string, args: Record<string, unknown>): Promise<number[]> => {
+    const ids: number[] = [];
+    let cursor: string | undefined;
+    do {
+        const result = await client.callTool(tool, { ...args, ...(cursor ? { cursor } : {}) });
+        const page = JSON.parse((result.content[0] as { text: string }).text);
+        ids.push(...page.items.map((item: { id: number }) => item.id));
+        cursor = page.next_cursor || undefined;
+    } while (cursor);
+    return ids;
+};
+
+test("rows with a NULL sort column are kept when paging", async () => {
+    const harness = await createHarness({
+        complaint: [
+            { id: 1, name: "Leaking tap", date: "2026-01-02", branch_id: 1 },
+            { id: 2, name: "Broken bench", date: null, branch_id: 1 },
+            { id: 3, name: "Bus late", date: "2026-01-01", branch_id: 1 },
+            { id: 4, name: "Noise", date: null, branch_id: 1 },
+            { id: 5, name: "Fan", date: "2026-01-02", branch_id: 1 },
+        ],
+    });
+
+    // Newest first, undated complaints last
+    assert.deepEqual(await walk(harness, "list_complaints", { limit: 1 }), [5, 1, 3, 4, 2]);
+    assert.deepEqual(await walk(harness, "list_complaints", { limit: 2 }), [5, 1, 3, 4, 2]);
+});
@@ -0,0 +1,66 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { createHarness, text } from "./support/harness";
+
+const LOGINS = { login_credential: [{ id: 1, user_id: 1, username: "admin", password: "secret-hash", role: 1 }] };
+
+test("a parenthesised table reference is refused", async () => {
+    const harness = await createHarness(LOGINS);
+
+    for (const sql of ["SELECT * FROM (login_credential)", "SELECT id, password FROM (login_credential)", "SELECT * FROM student JOIN (mcp_audit_log) ON 1 = 1"]) {
+        const result = await harness.callTool("run_readonly_query", { sql });
+        assert.equal(result.isError, true, sql);
+        assert.match(text(result), /parenthesised table references must be subqueries/);
+    }
+});
+
+test("tables listed after a derived table are still checked", async () => {
+    const harness = await createHarness(LOGINS);
+
+    const result = await harness.callTool("run_readonly_query", { sql: "SELECT * FROM (SELECT id FROM student) s, mcp_audit_log" });
+
+    assert.equal(result.isError, true);
+    assert.match(text(result), /not available for ad-hoc queries: mcp_audit_log/);
+});
+
+test("sensitive columns are redacted by name, however the table was reached", async () => {
+    const harness = await createHarness(LOGINS);
+
+    const direct = JSON.parse(text(await harness.callTool("run_readonly_query", { sql: "SELECT * FROM login_credential" })));
+    const aliased = JSON.parse(text(await harness.callTool("run_readonly_query", { sql: "SELECT l.* FROM login_credential AS l" })));
+
+    assert.equal(direct[0].password, "[redacted]");
+    assert.equal(aliased[0].password, "[redacted]");
+    assert.equal(aliased[0].username, "admin");
+
+    const named = await harness.callTool("run_readonly_query", { sql: "SELECT l.password AS p FROM staff l" });
+    assert.equal(named.isError, true);
+    assert.match(text(named), /column "password" cannot be queried/);
+});
+
+test("a derived table's column list, which could rename a sensitive column, is refused", async () => {
+    const harness = await createHarness(LOGINS);
+
+    for (const sql of ["SELECT d FROM (SELECT * FROM login_credential) AS t (a, b, c, d)", "SELECT a FROM (SELECT id FROM student) t(a)"]) {
+        const result = await harness.callTool("run_readonly_query", { sql });
+        assert.equal(result.isError, true, sql);
+        assert.match(text(result), /derived table column lists are not allowed/);
+    }
+});
+
+test("every column of login_credential can be selected only by the outermost SELECT", async () => {
+    const harness = await createHarness(LOGINS);
+
+    for (const sql of [
+        "SELECT * FROM (SELECT * FROM login_credential) AS l",
+        "SELECT x.* FROM (SELECT l.* FROM student s JOIN login_credential l ON l.user_id = s.id) x",
+        "SELECT id, username, role, active, user_id, last_login, created_at, updated_at, id FROM staff UNION SELECT * FROM login_credential",
+    ]) {
+        const result = await harness.callTool("run_readonly_query", { sql });
+        assert.equal(result.isError, true, sql);
+        assert.match(text(result), /"\*" over login_credential is only allowed in the outermost SELECT/);
+    }
+
+    const counted = await harness.callTool("run_readonly_query", { sql: "SELECT * FROM student WHERE id IN (SELECT COUNT(*) FROM login_credential)" });
+    assert.equal(counted.isError, undefined, text(counted));
+});
@@ -0,0 +1,21 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { MAX_PAGE_SIZE } from "../src/pagination";
+import { createHarness } from "./support/harness";
+
+test("a paged resource returns every row, not just the first page", async () => {
+    const students = Array.from({ length: MAX_PAGE_SIZE + 5 }, (_, i) => ({ id: i + 1, first_name: `Student ${i + 1}` }));
+    const harness = await createHarness({
+        subject: [{ id: 1, name: "Maths", branch_id: 1 }],
+        exam: [{ id: 1, name: "Midterm", branch_id: 1, session_id: 1 }],
+        student: students,
+        mark: students.map(({ id }) => ({ student_id: id, exam_id: 1, subject_id: 1, session_id: 1, mark: "40" })),
+    });
+
+    const result = await harness.request("resources/read", { uri: "exams://1/results" });
+    const results = JSON.parse(result.contents[0].text);
+
+    assert.equal(results.items.length, MAX_PAGE_SIZE + 5);
+    assert.deepEqual([results.total, results.next_cursor], [MAX_PAGE_SIZE + 5, null]);
+    assert.equal(results.items[MAX_PAGE_SIZE + 4].student_id, MAX_PAGE_SIZE + 5);
+});
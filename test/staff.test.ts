@@ -0,0 +1,44 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { createHarness, text } from "./support/harness";
+
+// Role 4 (accountant) may add and edit staff in branch 1
+const OFFICE = {
+    staff: [{ id: 1, name: "Meena", branch_id: 1 }],
+    login_credential: [{ id: 1, user_id: 1, username: "meena", role: 5 }],
+    permission: [{ id: 1, prefix: "employee" }],
+    staff_privileges: [{ role_id: 4, permission_id: 1, is_view: 1, is_add: 1, is_edit: 1 }],
+};
+
+test("staff managers cannot create superadmin logins or logins ranked above their own role", async () => {
+    const harness = await createHarness(OFFICE);
+    const accountant = harness.as({ userId: 2, roleId: 4, branchId: 1 });
+
+    const superadmin = await accountant.callTool("create_staff", { name: "Mallory", email: "m@example.com", role_id: 1 });
+    const admin = await accountant.callTool("create_staff", { name: "Mallory", email: "m@example.com", role_id: 2 });
+    const librarian = await accountant.callTool("create_staff", { name: "Lata", email: "lata@example.com", role_id: 5 });
+
+    assert.match(text(superadmin), /Role 4 may not assign role 1/);
+    assert.match(text(admin), /Role 4 may not assign role 2/);
+    assert.equal(librarian.isError, undefined, text(librarian));
+    assert.deepEqual(harness.driver.rows("login_credential").map((row) => row.role), [5, 5]);
+});
+
+test("staff managers cannot promote a login to superadmin", async () => {
+    const harness = await createHarness(OFFICE);
+    const accountant = harness.as({ userId: 2, roleId: 4, branchId: 1 });
+
+    const result = await accountant.callTool("update_staff", { id: 1, role_id: 1 });
+
+    assert.match(text(result), /Role 4 may not assign role 1/);
+    assert.equal(harness.driver.rows("login_credential")[0].role, 5);
+});
+
+test("superadmin may assign any role", async () => {
+    const harness = await createHarness(OFFICE);
+
+    const result = await harness.callTool("update_staff", { id: 1, role_id: 1 });
+
+    assert.equal(result.isError, undefined, text(result));
+    assert.equal(harness.driver.rows("login_credential")[0].role, 1);
+});
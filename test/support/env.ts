@@ -0,0 +1,4 @@
+// Role privileges and branch module states are cached by role and branch, not by API key, so they would
+// outlive the harness that loaded them. Imported by harness.ts ahead of any server module.
+process.env.IDENTITY_CACHE_TTL_MS ??= "0";
+process.env.MODULES_CACHE_TTL_MS ??= "0";
@@ -0,0 +1,74 @@
+import "./env";
+import { CallToolResult, JSONRPCMessage, McpError } from "@modelcontextprotocol/sdk/types";
+import { Identity, storage, useDriver } from "../../src/db";
+import { RequestResponseTransport } from "../../src/http-transport";
+import { createServer } from "../../src/index";
+import { Fixtures, SqliteDriver } from "./sqlite-driver";
+
+export interface HarnessClient {
+    identity: Identity;
+    // Sends one JSON-RPC request through the MCP server and resolves with its result;
+    // an error response is thrown as McpError
+    request(method: string, params?: Record<string, unknown>): Promise<any>;
+    // tools/call, i.e. the CallToolRequestSchema handler with permissions, branch scoping and audit
+    callTool(name: string, args?: Record<string, unknown>): Promise<CallToolResult>;
+}
+
+export interface Harness extends HarnessClient {
+    driver: SqliteDriver;
+    // Another caller against the same database, e.g. a branch admin next to the default superadmin
+    as(identity: Partial<Identity>): HarnessClient;
+}
+
+// The text of a tool result, e.g. to JSON.parse or match against
+export const text = (result: { content: unknown[] }) => (result.content as { text: string }[]).map((item) => item.text).join("\n");
+
+const SUPERADMIN: Identity = { userId: 1, roleId: 1, branchId: null };
+
+// Identity, session and reference lookups are cached per API key, so each client gets a key of its own
+let keyCount = 0;
+
+// Runs the real MCP server against a fresh in-memory RAMOM database:
+//
+//     const harness = await createHarness({ class: [{ id: 1, name: "Class 1", branch_id: 1 }] });
+//     const result = await harness.callTool("create_fee_type", { name: "Tuition" });
+//     harness.driver.rows("fees_type");
+//
+// The database becomes the backend of `pool` until the next createHarness. Role privileges and
+// branch module states are not cached under the harness (see env.ts), so harnesses with different
+// fixtures can share a process.
+export const createHarness = async (fixtures: Fixtures = {}, identity: Partial<Identity> = {}): Promise<Harness> => {
+    const driver = await SqliteDriver.create(fixtures);
+    useDriver(driver);
+
+    const client = (overrides: Partial<Identity>): HarnessClient => {
+        const apiKey = `harness-${++keyCount}`;
+        const clientIdentity = { ...SUPERADMIN, ...overrides };
+        driver.identities.set(apiKey, clientIdentity);
+
+        let nextId = 0;
+        const request = async (method: string, params: Record<string, unknown> = {}) => {
+            const server = createServer();
+            const transport = new RequestResponseTransport();
+            await server.connect(transport);
+            try {
+                const message = { jsonrpc: "2.0", id: ++nextId, method, params } as JSONRPCMessage;
+                const [response] = await storage.run(apiKey, () => transport.handle([message])) as any[];
+                if (response.error) {
+                    throw new McpError(response.error.code, response.error.message.replace(/^MCP error -?\d+: /, ""));
+                }
+                return response.result;
+            } finally {
+                await server.close();
+            }
+        };
+
+        return {
+            identity: clientIdentity,
+            request,
+            callTool: (name, args = {}) => request("tools/call", { name, arguments: args }),
+        };
+    };
+
+    return { ...client(identity), driver, as: client };
+};
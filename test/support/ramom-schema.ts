@@ -0,0 +1,232 @@
+// The subset of RAMOM's schema the MCP tools touch, in SQLite syntax. Column names follow the
+// RAMOM tables (see db_structure.txt and the *_schema.txt dumps); types are loosened to SQLite's
+// affinities and only the constraints the tools rely on are kept.
+export const RAMOM_SCHEMA = `
+    CREATE TABLE global_settings (id INTEGER PRIMARY KEY, institute_name TEXT, session_id INTEGER);
+    CREATE TABLE schoolyear (id INTEGER PRIMARY KEY AUTOINCREMENT, school_year TEXT, created_at TEXT);
+    CREATE TABLE branch (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, school_name TEXT);
+
+    CREATE TABLE roles (id INTEGER PRIMARY KEY, name TEXT, prefix TEXT, is_system INTEGER DEFAULT 0);
+    CREATE TABLE login_credential (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, user_id INTEGER, username TEXT, password TEXT, role INTEGER,
+        active INTEGER DEFAULT 1, last_login TEXT, created_at TEXT DEFAULT CURRENT_TIMESTAMP, updated_at TEXT
+    );
+    CREATE TABLE modules (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, prefix TEXT, system INTEGER DEFAULT 0, sorted INTEGER);
+    CREATE TABLE modules_manage (id INTEGER PRIMARY KEY AUTOINCREMENT, modules_id INTEGER, isEnabled INTEGER DEFAULT 1, branch_id INTEGER);
+    CREATE TABLE permission (id INTEGER PRIMARY KEY AUTOINCREMENT, module_id INTEGER, name TEXT, prefix TEXT);
+    CREATE TABLE staff_privileges (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, role_id INTEGER, permission_id INTEGER,
+        is_add INTEGER DEFAULT 0, is_edit INTEGER DEFAULT 0, is_view INTEGER DEFAULT 0, is_delete INTEGER DEFAULT 0
+    );
+
+    CREATE TABLE class (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, name_numeric INTEGER, rank_order INTEGER, branch_id INTEGER);
+    CREATE TABLE section (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, capacity INTEGER, branch_id INTEGER);
+    CREATE TABLE subject (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, subject_code TEXT, subject_type TEXT, subject_author TEXT, branch_id INTEGER
+    );
+
+    CREATE TABLE student (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, register_no TEXT, admission_date TEXT, first_name TEXT, last_name TEXT,
+        gender TEXT, birthday TEXT, religion TEXT, caste TEXT, blood_group TEXT, mother_tongue TEXT,
+        current_address TEXT, permanent_address TEXT, city TEXT, state TEXT, mobileno TEXT, category_id INTEGER,
+        email TEXT, parent_id INTEGER, route_id INTEGER, vehicle_id INTEGER, hostel_id INTEGER, room_id INTEGER,
+        previous_details TEXT, photo TEXT, created_at TEXT DEFAULT CURRENT_TIMESTAMP, updated_at TEXT
+    );
+    CREATE TABLE enroll (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, student_id INTEGER, class_id INTEGER, section_id INTEGER, roll INTEGER,
+        session_id INTEGER, branch_id INTEGER
+    );
+    CREATE TABLE parent (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, relation TEXT, father_name TEXT, mother_name TEXT, occupation TEXT,
+        income TEXT, education TEXT, email TEXT, mobileno TEXT, address TEXT, city TEXT, state TEXT, photo TEXT,
+        branch_id INTEGER, created_at TEXT, updated_at TEXT
+    );
+    CREATE TABLE online_admission (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, first_name TEXT, last_name TEXT, gender TEXT, birthday TEXT, religion TEXT,
+        caste TEXT, blood_group TEXT, mobile_no TEXT, mother_tongue TEXT, present_address TEXT, permanent_address TEXT,
+        admission_date TEXT, category_id INTEGER, email TEXT, student_photo TEXT, previous_school_details TEXT,
+        guardian_name TEXT, guardian_relation TEXT, father_name TEXT, mother_name TEXT, grd_occupation TEXT, grd_income TEXT,
+        grd_education TEXT, grd_email TEXT, grd_mobile_no TEXT, grd_address TEXT, grd_city TEXT, grd_state TEXT, grd_photo TEXT,
+        status INTEGER DEFAULT 1, payment_status INTEGER DEFAULT 0, payment_amount REAL, payment_details TEXT, reference_no TEXT,
+        class_id INTEGER, section_id INTEGER, branch_id INTEGER, created_date TEXT
+    );
+    CREATE TABLE online_admission_fields (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, fields_id INTEGER, system INTEGER, status INTEGER, required INTEGER, branch_id INTEGER
+    );
+    CREATE TABLE custom_field (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, form_to TEXT, field_label TEXT, default_value TEXT, field_type TEXT,
+        required INTEGER DEFAULT 0, status INTEGER DEFAULT 1, field_order INTEGER, branch_id INTEGER
+    );
+    CREATE TABLE custom_fields_online_values (id INTEGER PRIMARY KEY AUTOINCREMENT, relid INTEGER, field_id INTEGER, value TEXT);
+    CREATE TABLE student_attendance (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, enroll_id INTEGER, status TEXT, remark TEXT, date TEXT, branch_id INTEGER
+    );
+    CREATE TABLE student_leave (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, student_id INTEGER, leave_from TEXT, leave_to TEXT, reason TEXT,
+        status TEXT DEFAULT 'pending', approved_by INTEGER, approved_date TEXT, remarks TEXT, branch_id INTEGER,
+        application_date TEXT DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE staff (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, staff_id TEXT, name TEXT, sex TEXT, religion TEXT, blood_group TEXT,
+        birthday TEXT, designation INTEGER, department INTEGER, joining_date TEXT, qualification TEXT, work_exp TEXT,
+        address TEXT, mobileno TEXT, email TEXT, photo TEXT, salary_template_id INTEGER, branch_id INTEGER,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP, updated_at TEXT
+    );
+    CREATE TABLE staff_department (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, branch_id INTEGER);
+    CREATE TABLE staff_designation (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, branch_id INTEGER);
+    CREATE TABLE staff_attendance (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, staff_id INTEGER, status TEXT, remark TEXT, date TEXT, branch_id INTEGER,
+        UNIQUE (staff_id, date)
+    );
+    CREATE TABLE leave_category (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, role_id INTEGER, days INTEGER, branch_id INTEGER);
+    CREATE TABLE staff_leave (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, staff_id INTEGER, leave_category_id INTEGER, leave_from TEXT, leave_to TEXT,
+        reason TEXT, status TEXT DEFAULT 'pending', approved_by INTEGER, approved_date TEXT, remarks TEXT, branch_id INTEGER,
+        application_date TEXT DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE TABLE salary_template (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, basic_salary REAL, overtime_salary REAL, total_salary REAL, branch_id INTEGER
+    );
+
+    CREATE TABLE exam_term (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, branch_id INTEGER, session_id INTEGER);
+    CREATE TABLE exam (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, term_id INTEGER, type_id INTEGER, session_id INTEGER, branch_id INTEGER,
+        remark TEXT, mark_distribution TEXT, created_at TEXT DEFAULT CURRENT_TIMESTAMP, updated_at TEXT
+    );
+    CREATE TABLE exam_hall (id INTEGER PRIMARY KEY AUTOINCREMENT, hall_no TEXT, seats INTEGER, branch_id INTEGER);
+    CREATE TABLE grade (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, grade_point REAL, lower_mark REAL, upper_mark REAL, remark TEXT, branch_id INTEGER
+    );
+    CREATE TABLE mark (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, student_id INTEGER, subject_id INTEGER, class_id INTEGER, section_id INTEGER,
+        exam_id INTEGER, mark TEXT, absent TEXT, session_id INTEGER, branch_id INTEGER
+    );
+    CREATE TABLE timetable_class (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, class_id INTEGER, section_id INTEGER, subject_id INTEGER, teacher_id INTEGER,
+        time_start TEXT, time_end TEXT, class_room TEXT, day TEXT, \`break\` INTEGER DEFAULT 0, session_id INTEGER, branch_id INTEGER
+    );
+    CREATE TABLE timetable_exam (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, exam_id INTEGER, class_id INTEGER, section_id INTEGER, subject_id INTEGER,
+        time_start TEXT, time_end TEXT, hall_id INTEGER, exam_date TEXT, mark_distribution TEXT, session_id INTEGER, branch_id INTEGER
+    );
+
+    CREATE TABLE fees_type (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, fee_code TEXT, description TEXT, system INTEGER DEFAULT 0,
+        branch_id INTEGER, created_at TEXT
+    );
+    CREATE TABLE fee_groups (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, description TEXT, session_id INTEGER, system INTEGER DEFAULT 0,
+        branch_id INTEGER, created_at TEXT
+    );
+    CREATE TABLE fee_groups_details (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, fee_groups_id INTEGER, fee_type_id INTEGER, amount REAL, due_date TEXT
+    );
+    CREATE TABLE fee_allocation (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, student_id INTEGER, group_id INTEGER, session_id INTEGER, branch_id INTEGER,
+        prev_due REAL DEFAULT 0
+    );
+    CREATE TABLE fee_payment_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, allocation_id INTEGER, type_id INTEGER, collect_by TEXT, remarks TEXT,
+        amount REAL DEFAULT 0, discount REAL DEFAULT 0, fine REAL DEFAULT 0, pay_via TEXT, date TEXT
+    );
+    CREATE TABLE payment_types (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, branch_id INTEGER);
+
+    CREATE TABLE accounts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, number TEXT, description TEXT, balance REAL DEFAULT 0,
+        branch_id INTEGER, created_at TEXT DEFAULT CURRENT_TIMESTAMP, updated_at TEXT
+    );
+    CREATE TABLE voucher_head (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, type TEXT, system INTEGER DEFAULT 0, branch_id INTEGER);
+    CREATE TABLE transactions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, account_id INTEGER, voucher_head_id INTEGER, type TEXT, category TEXT, ref TEXT,
+        amount REAL, dr REAL DEFAULT 0, cr REAL DEFAULT 0, bal REAL DEFAULT 0, date TEXT, pay_via TEXT, description TEXT,
+        attachments TEXT, branch_id INTEGER, system INTEGER DEFAULT 0, created_at TEXT DEFAULT CURRENT_TIMESTAMP, updated_at TEXT
+    );
+
+    CREATE TABLE product_category (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, branch_id INTEGER, created_at TEXT DEFAULT CURRENT_TIMESTAMP, updated_at TEXT
+    );
+    CREATE TABLE product_unit (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, branch_id INTEGER, created_at TEXT DEFAULT CURRENT_TIMESTAMP, updated_at TEXT
+    );
+    CREATE TABLE product_store (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, code TEXT, mobileno TEXT, address TEXT, description TEXT,
+        branch_id INTEGER, created_at TEXT DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE TABLE product_supplier (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, address TEXT, mobileno TEXT, email TEXT, company_name TEXT,
+        product_list TEXT, branch_id INTEGER, created_at TEXT DEFAULT CURRENT_TIMESTAMP, updated_at TEXT
+    );
+    CREATE TABLE product (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, code TEXT, category_id INTEGER, purchase_unit_id INTEGER,
+        sales_unit_id INTEGER, unit_ratio TEXT DEFAULT '1', purchase_price REAL DEFAULT 0, sales_price REAL DEFAULT 0,
+        available_stock TEXT DEFAULT '0', photo TEXT, remarks TEXT, branch_id INTEGER,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP, updated_at TEXT
+    );
+    CREATE TABLE purchase_bill (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, bill_no TEXT, supplier_id INTEGER, store_id INTEGER, remarks TEXT,
+        total REAL DEFAULT 0, discount REAL DEFAULT 0, paid REAL DEFAULT 0, due REAL DEFAULT 0, payment_status INTEGER,
+        purchase_status INTEGER, prepared_by INTEGER, date TEXT, branch_id INTEGER,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP, updated_at TEXT
+    );
+    CREATE TABLE purchase_bill_details (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, purchase_bill_id INTEGER, product_id INTEGER, unit_price REAL,
+        quantity REAL, discount REAL DEFAULT 0, sub_total REAL
+    );
+    CREATE TABLE product_issues (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, role_id INTEGER, user_id INTEGER, date_of_issue TEXT, due_date TEXT,
+        return_date TEXT, remarks TEXT, prepared_by INTEGER, status INTEGER DEFAULT 0, branch_id INTEGER,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP, updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE TABLE product_issues_details (id INTEGER PRIMARY KEY AUTOINCREMENT, issues_id INTEGER, product_id TEXT, quantity TEXT);
+
+    CREATE TABLE enquiry_reference (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, branch_id INTEGER);
+    CREATE TABLE enquiry_response (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, branch_id INTEGER);
+    CREATE TABLE enquiry (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, mobile_no TEXT, date TEXT, father_name TEXT, mother_name TEXT,
+        email TEXT, address TEXT, note TEXT, response INTEGER, class_id INTEGER, reference_id INTEGER, status INTEGER DEFAULT 1,
+        branch_id INTEGER, created_by INTEGER, created_at TEXT, updated_at TEXT
+    );
+    CREATE TABLE enquiry_follow_up (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, enquiry_id INTEGER, date TEXT, next_date TEXT, response TEXT, note TEXT,
+        status INTEGER, created_at TEXT
+    );
+    CREATE TABLE call_purpose (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, branch_id INTEGER);
+    CREATE TABLE call_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, number TEXT, call_type TEXT, purpose_id INTEGER, date TEXT,
+        start_time TEXT, end_time TEXT, follow_up TEXT, note TEXT, branch_id INTEGER, created_at TEXT, updated_at TEXT
+    );
+    CREATE TABLE visitor_purpose (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, branch_id INTEGER);
+    CREATE TABLE visitor_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, number TEXT, purpose_id INTEGER, date TEXT, entry_time TEXT,
+        exit_time TEXT, number_of_visitor INTEGER, id_number TEXT, token_pass TEXT, note TEXT, branch_id INTEGER,
+        created_at TEXT, updated_at TEXT
+    );
+    CREATE TABLE complaint_type (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, branch_id INTEGER);
+    CREATE TABLE complaint (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, number TEXT, type_id INTEGER, date TEXT, assigned_id INTEGER,
+        action TEXT, date_of_solution TEXT, note TEXT, branch_id INTEGER, created_at TEXT, updated_at TEXT
+    );
+    CREATE TABLE postal_record (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, sender_title TEXT, receiver_title TEXT, reference_no TEXT, address TEXT,
+        date TEXT, type TEXT, confidential INTEGER DEFAULT 0, note TEXT, branch_id INTEGER, created_at TEXT, updated_at TEXT
+    );
+`;
+
+// Rows every fresh database starts with: one branch, an active academic session and RAMOM's
+// built-in roles
+export const BASE_FIXTURES: Record<string, Record<string, unknown>[]> = {
+    branch: [{ id: 1, name: "Main", school_name: "Test School" }],
+    schoolyear: [{ id: 1, school_year: "2025-2026" }],
+    global_settings: [{ id: 1, institute_name: "Test School", session_id: 1 }],
+    roles: [
+        { id: 1, name: "Super Admin", prefix: "superadmin", is_system: 1 },
+        { id: 2, name: "Admin", prefix: "admin", is_system: 1 },
+        { id: 3, name: "Teacher", prefix: "teacher", is_system: 1 },
+        { id: 4, name: "Accountant", prefix: "accountant", is_system: 1 },
+        { id: 5, name: "Librarian", prefix: "librarian", is_system: 1 },
+        { id: 6, name: "Parent", prefix: "parent", is_system: 1 },
+        { id: 7, name: "Student", prefix: "student", is_system: 1 },
+        { id: 8, name: "Receptionist", prefix: "receptionist", is_system: 1 },
+    ],
+};
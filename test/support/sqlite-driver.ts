@@ -0,0 +1,226 @@
+import initSqlJs, { Database, SqlValue } from "sql.js";
+import { DatabaseDriver, Identity, noteWrite, resolveParams, Statement, storage } from "../../src/db";
+import { DatabaseError } from "../../src/db-errors";
+import { BASE_FIXTURES, RAMOM_SCHEMA } from "./ramom-schema";
+
+// Rows to load per table, e.g. { class: [{ id: 1, name: "Class 1", branch_id: 1 }] }
+export type Fixtures = Record<string, Record<string, unknown>[]>;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// MySQL's DATETIME text form, which RAMOM returns through the proxy
+const now = () => {
+    const date = new Date();
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+};
+
+const toSqlValue = (value: unknown): SqlValue => {
+    if (value === undefined || value === null) return null;
+    if (typeof value === "boolean") return value ? 1 : 0;
+    if (value instanceof Date) return value.toISOString().slice(0, 19).replace("T", " ");
+    if (typeof value === "object") return JSON.stringify(value);
+    return value as SqlValue;
+};
+
+// MySQL accepts HAVING on a query without GROUP BY, filtering on select aliases; SQLite only takes
+// that filter in WHERE (where it also resolves aliases). Rewrites each such HAVING at its nesting level.
+const havingToWhere = (sql: string): string => {
+    const levels: { where: boolean; groupBy: boolean }[] = [{ where: false, groupBy: false }];
+    let out = "";
+    for (const [token] of sql.matchAll(/'(?:[^'\\]|\\.|'')*'|"(?:[^"\\]|\\.|"")*"|\w+|[\s\S]/g)) {
+        const level = levels[levels.length - 1];
+        const word = token.toUpperCase();
+        if (token === "(") levels.push({ where: false, groupBy: false });
+        else if (token === ")") levels.pop();
+        else if (word === "WHERE") level.where = true;
+        else if (word === "GROUP") level.groupBy = true;
+        else if (word === "SELECT") Object.assign(level, { where: false, groupBy: false });
+        else if (word === "HAVING" && !level.groupBy) {
+            out += level.where ? "AND" : "WHERE";
+            level.where = true;
+            continue;
+        }
+        out += token;
+    }
+    return out;
+};
+
+// Rewrites the MySQL dialect the tools use into SQLite. Covers what the handlers send, not MySQL at large.
+const translate = (sql: string): string => {
+    if (/\bHAVING\b/i.test(sql)) sql = havingToWhere(sql);
+
+    // DELETE alias FROM table alias JOIN ... WHERE ...  =>  DELETE FROM table WHERE id IN (SELECT ...)
+    const multiDelete = sql.match(/^\s*DELETE\s+(\w+)\s+FROM\s+(\w+)\s+(\w+)\s+([\s\S]+)$/i);
+    if (multiDelete && multiDelete[1] === multiDelete[3]) {
+        const [, alias, table, , rest] = multiDelete;
+        sql = `DELETE FROM ${table} WHERE id IN (SELECT ${alias}.id FROM ${table} ${alias} ${rest})`;
+    }
+
+    // INSERT ... ON DUPLICATE KEY UPDATE col = VALUES(col)  =>  INSERT ... ON CONFLICT DO UPDATE SET col = excluded.col
+    const upsert = sql.match(/^([\s\S]+?)\bON\s+DUPLICATE\s+KEY\s+UPDATE\b([\s\S]+)$/i);
+    if (upsert) {
+        sql = `${upsert[1]}ON CONFLICT DO UPDATE SET${upsert[2].replace(/\bVALUES\((\w+)\)/gi, "excluded.$1")}`;
+    }
+
+    return sql
+        .replace(/^\s*SHOW\s+TABLES\s*;?\s*$/i, "SELECT name AS Tables_in_ramom FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name")
+        .replace(/\bINSERT\s+IGNORE\b/gi, "INSERT OR IGNORE")
+        .replace(/\bFIELD\(([^,()]+),((?:\s*'[^']*'\s*,?)+)\)/gi, (_, expr: string, list: string) => {
+            const values = list.split(",").map((value) => value.trim()).filter(Boolean);
+            return `(CASE ${expr} ${values.map((value, i) => `WHEN ${value} THEN ${i + 1}`).join(" ")} ELSE 0 END)`;
+        })
+        // DDL such as the audit log table
+        .replace(/\bINT\s+AUTO_INCREMENT\s+PRIMARY\s+KEY\b/gi, "INTEGER PRIMARY KEY AUTOINCREMENT")
+        .replace(/,\s*(?:UNIQUE\s+)?KEY\s+\w+\s*\([^)]*\)/gi, "");
+};
+
+// MySQL's containment rule: a scalar is contained in an array when it is contained in one of its elements
+const jsonContains = (target: any, candidate: any): boolean => {
+    if (!Array.isArray(target)) return JSON.stringify(target) === JSON.stringify(candidate);
+    return Array.isArray(candidate)
+        ? candidate.every((item) => jsonContains(target, item))
+        : target.some((item) => jsonContains(item, candidate));
+};
+
+// Scalar functions MySQL has and SQLite lacks (or, for JSON_EXTRACT, handles differently). sql.js takes a function's arity from its parameter
+// list, so variadic ones (FIELD) are rewritten in translate() instead.
+const MYSQL_FUNCTIONS: Record<string, (...args: any[]) => SqlValue> = {
+    NOW: () => now(),
+    CURDATE: () => now().slice(0, 10),
+    YEAR: (date: string | null) => (date ? Number(String(date).slice(0, 4)) : null),
+    MONTH: (date: string | null) => (date ? Number(String(date).slice(5, 7)) : null),
+    DATEDIFF: (to: string | null, from: string | null) =>
+        to && from ? Math.round((Date.parse(String(to).slice(0, 10)) - Date.parse(String(from).slice(0, 10))) / 86400000) : null,
+    JSON_CONTAINS: (document: string | null, candidate: string | null) =>
+        document === null || candidate === null ? null : Number(jsonContains(JSON.parse(document), JSON.parse(candidate))),
+    // Paths $.key, $."key" and $.* (every value, as an array); scalars come back as SQL values like SQLite's own
+    JSON_EXTRACT: (document: string | null, path: string | null) => {
+        if (document === null || path === null) return null;
+        const value = JSON.parse(document);
+        const key = path.match(/^\$\.(?:"(.*)"|(\w+))$/);
+        if (path !== "$.*" && !key) throw new Error(`Unsupported JSON path ${path}`);
+
+        const found = path === "$.*" ? (value && typeof value === "object" ? Object.values(value) : undefined) : value?.[key![1] ?? key![2]];
+        if (found === undefined || found === null) return null;
+        return typeof found === "object" ? JSON.stringify(found) : typeof found === "boolean" ? Number(found) : found;
+    },
+};
+
+// In-memory stand-in for RAMOM's database, so handlers run without the network: statements in the
+// MySQL dialect the tools use are translated to SQLite and results are shaped like mysql2's.
+// whoami answers from `identities` (API key -> identity).
+export class SqliteDriver implements DatabaseDriver {
+    readonly identities = new Map<string, Identity>();
+
+    private constructor(readonly db: Database) { }
+
+    // A fresh database with RAMOM_SCHEMA, BASE_FIXTURES and the given fixtures loaded
+    static async create(fixtures: Fixtures = {}): Promise<SqliteDriver> {
+        const SQL = await initSqlJs();
+        const db = new SQL.Database();
+        for (const [name, fn] of Object.entries(MYSQL_FUNCTIONS)) {
+            db.create_function(name, fn);
+        }
+        db.exec(RAMOM_SCHEMA);
+
+        const driver = new SqliteDriver(db);
+        driver.load(BASE_FIXTURES);
+        driver.load(fixtures);
+        return driver;
+    }
+
+    // Inserts fixture rows, replacing any row with the same id
+    load(fixtures: Fixtures) {
+        for (const [table, rows] of Object.entries(fixtures)) {
+            for (const row of rows) {
+                const columns = Object.keys(row);
+                this.db.run(
+                    `INSERT OR REPLACE INTO \`${table}\` (${columns.map((column) => `\`${column}\``).join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`,
+                    columns.map((column) => toSqlValue(row[column]))
+                );
+            }
+        }
+    }
+
+    // Every row of a table, for asserting on what a tool wrote
+    rows(table: string): any[] {
+        return this.run(`SELECT * FROM \`${table}\` ORDER BY rowid`, [])[0];
+    }
+
+    private run(sql: string, params: any[]): [any, any] {
+        const describe = sql.match(/^\s*DESCRIBE\s+`?(\w+)`?\s*;?\s*$/i);
+        if (describe) return [this.describe(describe[1]), []];
+
+        const statement = this.db.prepare(translate(sql));
+        try {
+            statement.bind(params.map(toSqlValue));
+            const columns = statement.getColumnNames();
+            if (columns.length > 0) {
+                const rows = [];
+                while (statement.step()) rows.push(statement.getAsObject());
+                return [rows, columns.map((name) => ({ name }))];
+            }
+
+            statement.step();
+            const affectedRows = this.db.getRowsModified();
+            const insertId = /^\s*(INSERT|REPLACE)\b/i.test(sql) && affectedRows > 0
+                ? Number(this.db.exec("SELECT last_insert_rowid()")[0].values[0][0])
+                : 0;
+            return [{ affectedRows, insertId }, undefined];
+        } finally {
+            statement.free();
+        }
+    }
+
+    // MySQL's DESCRIBE columns, from SQLite's table_info
+    private describe(table: string) {
+        const [columns] = this.run(`SELECT * FROM pragma_table_info('${table.replace(/'/g, "''")}')`, []);
+        return (columns as any[]).map((column) => ({
+            Field: column.name,
+            Type: String(column.type).toLowerCase(),
+            Null: column.notnull ? "NO" : "YES",
+            Key: column.pk ? "PRI" : "",
+            Default: column.dflt_value,
+            Extra: column.pk ? "auto_increment" : "",
+        }));
+    }
+
+    private fail(error: any, suffix = ""): never {
+        const message = error?.message || String(error);
+        throw new DatabaseError(/UNIQUE constraint failed/i.test(message) ? "duplicate" : "sql", `${message}${suffix}`);
+    }
+
+    async execute(sql: string, params: any[] = []): Promise<[any, any]> {
+        try {
+            const result = this.run(sql, params);
+            noteWrite(sql, result[0]);
+            return result;
+        } catch (error) {
+            this.fail(error);
+        }
+    }
+
+    async batch(statements: Statement[]): Promise<any[]> {
+        const results: any[] = [];
+        this.db.exec("BEGIN");
+        try {
+            for (const statement of statements) {
+                results.push(this.run(statement.sql, resolveParams(statement.params || [], results))[0]);
+            }
+            this.db.exec("COMMIT");
+        } catch (error) {
+            this.db.exec("ROLLBACK");
+            this.fail(error, " (rolled back)");
+        }
+        results.forEach((result, index) => noteWrite(statements[index].sql, result));
+        return results;
+    }
+
+    async whoami(): Promise<Identity> {
+        const identity = this.identities.get(storage.getStore() || "");
+        if (!identity) {
+            throw new DatabaseError("auth", "Unable to identify API key: not a harness identity");
+        }
+        return identity;
+    }
+}
@@ -2,7 +2,7 @@ const { spawn } = require('child_process');
 const path = require('path');
 
 const serverPath = path.join(__dirname, 'dist', 'index.js');
-const server = spawn('node', [serverPath], {
+const server = spawn('node', [serverPath, '--stdio'], {
     stdio: ['pipe', 'pipe', 'pipe']
 });
 